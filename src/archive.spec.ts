@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { GraffitiLocal, GraffitiLocalMemoryStorage } from "./index";
+import { randomBase64 } from "./utilities";
+import { collect } from "./test-utilities";
+
+const alice = { actor: "did:example:alice" };
+const bob = { actor: "did:example:bob" };
+
+describe("archives", () => {
+  it("moves an actor's objects and media to another database", async () => {
+    const source = new GraffitiLocal({
+      storage: new GraffitiLocalMemoryStorage(),
+    });
+    const channels = [randomBase64()];
+    const kept = await source.post<{}>({ value: { a: 1 }, channels }, alice);
+    const deleted = await source.post<{}>({ value: { b: 2 }, channels }, alice);
+    await source.delete(deleted, alice);
+    await source.post<{}>({ value: { c: 3 }, channels }, bob);
+    const data = new Blob(["hello"], { type: "text/plain" });
+    const mediaUrl = await source.postMedia({ data }, alice);
+
+    const { values: archive } = await collect(
+      source.archive.export({ actor: alice.actor }),
+    );
+    // A header, one media record and three objects
+    expect(archive).toHaveLength(5);
+
+    const target = new GraffitiLocal({
+      storage: new GraffitiLocalMemoryStorage(),
+    });
+    const result = await target.archive.import(archive);
+    expect(result).toMatchObject({
+      imported: 3,
+      unchanged: 0,
+      conflicts: [],
+      errors: [],
+    });
+
+    await expect(target.get(kept, {})).resolves.toMatchObject({
+      url: kept.url,
+      value: { a: 1 },
+    });
+    await expect(target.get(deleted, {})).rejects.toThrow();
+    const media = await target.getMedia(mediaUrl, {}, alice);
+    expect(await media.data.text()).toBe("hello");
+
+    // Importing again changes nothing
+    await expect(target.archive.import(archive)).resolves.toMatchObject({
+      imported: 0,
+      unchanged: 3,
+    });
+  });
+
+  it("exports a batch of changes at a time", async () => {
+    const storage = new GraffitiLocalMemoryStorage();
+    const graffiti = new GraffitiLocal({ storage });
+    for (let i = 0; i < 150; i++) {
+      await graffiti.post<{}>({ value: { i }, channels: [] }, alice);
+    }
+    const data = new Blob(["hello"], { type: "text/plain" });
+    await graffiti.postMedia({ data }, alice);
+    await graffiti.postMedia({ data }, alice);
+
+    const limits: (number | undefined)[] = [];
+    const changes = storage.changes.bind(storage);
+    storage.changes = (since, limit) => {
+      limits.push(limit);
+      return changes(since, limit);
+    };
+
+    const { values: archive } = await collect(graffiti.archive.export());
+    expect(limits.length).toBeGreaterThan(1);
+    expect(limits.every((limit) => limit !== undefined)).toBe(true);
+    // The shared media comes once, before the first object using it
+    const types = archive.map((line) => JSON.parse(line).type);
+    expect(types.filter((type) => type === "object")).toHaveLength(152);
+    expect(types.filter((type) => type === "media")).toHaveLength(1);
+    expect(types.slice(-3)).toEqual(["media", "object", "object"]);
+  });
+
+  it("reports conflicts with objects that already exist", async () => {
+    const storage = new GraffitiLocalMemoryStorage();
+    const graffiti = new GraffitiLocal({ storage });
+    const posted = await graffiti.post<{}>(
+      { value: {}, channels: [randomBase64()] },
+      alice,
+    );
+
+    const archive = (
+      await collect(graffiti.archive.export({ channels: posted.channels }))
+    ).values.join("");
+    await graffiti.delete(posted, alice);
+
+    const result = await graffiti.archive.import([archive]);
+    expect(result.imported).toBe(0);
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toMatchObject({
+      url: posted.url,
+      existing: { tombstone: true },
+    });
+  });
+});
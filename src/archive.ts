@@ -0,0 +1,247 @@
+import type { GraffitiLocalObjects } from "./objects.js";
+import type { GraffitiLocalStoredObject } from "./storage.js";
+import { isDidKey } from "./keys.js";
+import {
+  base64ToBlob,
+  blobToBase64,
+  canonicalJSON,
+  decodeObjectUrl,
+  lines,
+  sha256Base64,
+} from "./utilities.js";
+
+const ARCHIVE_FORMAT = "graffiti-local-archive";
+const ARCHIVE_VERSION = 1;
+const EXPORT_BATCH_SIZE = 100;
+
+/**
+ * Which objects to {@link GraffitiLocalArchive.export | export}.
+ * If both are given, objects must match both.
+ * If neither is given, everything is exported.
+ */
+export interface GraffitiLocalExportSelection {
+  /**
+   * Only export objects created by this actor.
+   */
+  actor?: string;
+  /**
+   * Only export objects posted to at least one of these channels.
+   */
+  channels?: string[];
+}
+
+/**
+ * One line of an archive.
+ */
+export type GraffitiLocalArchiveRecord =
+  | { type: "header"; format: typeof ARCHIVE_FORMAT; version: number }
+  | { type: "media"; hash: string; data: string }
+  | ({ type: "object" } & Omit<GraffitiLocalStoredObject, "rev">);
+
+/**
+ * The outcome of an {@link GraffitiLocalArchive.import | import}.
+ */
+export interface GraffitiLocalImportResult {
+  /**
+   * The number of objects that were written.
+   */
+  imported: number;
+  /**
+   * The number of objects that already existed unchanged.
+   */
+  unchanged: number;
+  /**
+   * Objects that were not written because a different
+   * object already exists at the same URL.
+   */
+  conflicts: { url: string; existing: GraffitiLocalStoredObject }[];
+  /**
+   * Lines that were not imported because they are invalid.
+   */
+  errors: { line: number; url?: string; error: Error }[];
+}
+
+function mediaHash(object: GraffitiLocalStoredObject): string | undefined {
+  return !object.tombstone ? object.media?.hash : undefined;
+}
+
+function sameObject(
+  a: GraffitiLocalStoredObject,
+  b: GraffitiLocalStoredObject,
+) {
+  const data = ({ url, rev, ...data }: GraffitiLocalStoredObject) => data;
+  return canonicalJSON(data(a)) === canonicalJSON(data(b));
+}
+
+/**
+ * Exports objects and media as a portable archive and imports
+ * them again, to move data between databases or seed new ones.
+ *
+ * Archives are [NDJSON](https://github.com/ndjson/ndjson-spec):
+ * a header line, then the objects with their original URLs,
+ * channels, allowed lists and tombstones. The media bytes that an
+ * object references come as a data URL on the line before it,
+ * unless an earlier object already referenced them.
+ */
+export class GraffitiLocalArchive {
+  protected objects: Pick<
+    GraffitiLocalObjects,
+    "storage" | "clock" | "keys" | "broadcast"
+  >;
+
+  constructor(
+    objects: Pick<
+      GraffitiLocalObjects,
+      "storage" | "clock" | "keys" | "broadcast"
+    >,
+  ) {
+    this.objects = objects;
+  }
+
+  protected async *exportMeta(
+    selection?: GraffitiLocalExportSelection,
+  ): AsyncGenerator<string, void> {
+    const { storage } = this.objects;
+    const record = (record: GraffitiLocalArchiveRecord) =>
+      JSON.stringify(record) + "\n";
+
+    yield record({
+      type: "header",
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+    });
+
+    // Read a batch of changes at a time so that
+    // large databases are never loaded all at once
+    const exported = new Set<string>();
+    let since: string | number = 0;
+    while (true) {
+      const result = await storage.changes(since, EXPORT_BATCH_SIZE);
+      if (result.sequence === since) break;
+      since = result.sequence;
+
+      for (const { rev, ...object } of result.objects) {
+        if (
+          (selection?.actor &&
+            decodeObjectUrl(object.url).actor !== selection.actor) ||
+          (selection?.channels &&
+            !object.channels.some((c) => selection.channels!.includes(c)))
+        ) {
+          continue;
+        }
+
+        const hash = mediaHash(object);
+        if (hash && !exported.has(hash)) {
+          exported.add(hash);
+          const data = await storage.getMedia(hash);
+          if (data) {
+            yield record({
+              type: "media",
+              hash,
+              data: await blobToBase64(data),
+            });
+          }
+        }
+        yield record({ type: "object", ...object });
+      }
+    }
+  }
+
+  /**
+   * Yields the lines of an archive of the selected objects,
+   * each terminated by a newline.
+   */
+  export = (
+    selection?: GraffitiLocalExportSelection,
+  ): AsyncGenerator<string, void> => this.exportMeta(selection);
+
+  /**
+   * Imports an archive produced by {@link export}, given as
+   * chunks of text. Objects keep their URLs. Importing the same
+   * archive again has no effect, and objects that differ from
+   * ones already stored are reported as conflicts and skipped.
+   */
+  import = async (
+    archive: AsyncIterable<string> | Iterable<string>,
+  ): Promise<GraffitiLocalImportResult> => {
+    const { storage, clock, keys, broadcast } = this.objects;
+    const result: GraffitiLocalImportResult = {
+      imported: 0,
+      unchanged: 0,
+      conflicts: [],
+      errors: [],
+    };
+    const media = new Map<string, Blob>();
+
+    let lineNumber = 0;
+    let headerSeen = false;
+    for await (const line of lines(archive)) {
+      lineNumber++;
+      if (!line.trim()) continue;
+
+      let url: string | undefined;
+      try {
+        const record = JSON.parse(line) as GraffitiLocalArchiveRecord;
+        if (record.type === "header") {
+          if (
+            record.format !== ARCHIVE_FORMAT ||
+            record.version !== ARCHIVE_VERSION
+          ) {
+            throw new Error("Unsupported archive format");
+          }
+          headerSeen = true;
+          continue;
+        } else if (!headerSeen) {
+          throw new Error("The archive has no header");
+        }
+
+        if (record.type === "media") {
+          const data = await base64ToBlob(record.data);
+          if ((await sha256Base64(data)) !== record.hash) {
+            throw new Error("Media does not match its hash");
+          }
+          media.set(record.hash, data);
+          continue;
+        } else if (record.type !== "object") {
+          throw new Error("Unknown record type");
+        }
+
+        const { type, ...object } = record;
+        url = object.url;
+        const { actor } = decodeObjectUrl(url);
+        if (isDidKey(actor) && !(await keys.verify(actor, object))) {
+          throw new Error("Invalid signature");
+        }
+
+        const existing = await storage.get(url);
+        if (existing) {
+          if (sameObject(existing, object)) {
+            result.unchanged++;
+          } else {
+            result.conflicts.push({ url, existing });
+          }
+          continue;
+        }
+
+        const hash = mediaHash(object);
+        const data = hash ? media.get(hash) : undefined;
+        if (hash && !data) {
+          throw new Error("The archive is missing the object's media");
+        }
+        clock.receive(object.lastModified);
+        const rev = await storage.put(object);
+        if (hash && data) await storage.retainMedia(hash, url, data);
+        broadcast?.post({ type: "change", object: { ...object, rev } });
+        result.imported++;
+      } catch (error) {
+        result.errors.push({
+          line: lineNumber,
+          url,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      }
+    }
+
+    return result;
+  };
+}
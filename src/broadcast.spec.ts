@@ -0,0 +1,75 @@
+import { describe, it, expect, assert } from "vitest";
+import type {
+  GraffitiLoginEvent,
+  GraffitiLogoutEvent,
+} from "@graffiti-garden/api";
+import { GraffitiLocal, GraffitiLocalMemoryStorage } from "./index";
+import { randomBase64 } from "./utilities";
+
+const session = { actor: "did:example:someone" };
+
+// Separate storage for each "tab", so that only
+// the broadcast can tell one about the other's writes
+function useTabs() {
+  const broadcastChannel = randomBase64();
+  const useTab = () =>
+    new GraffitiLocal({
+      storage: new GraffitiLocalMemoryStorage(),
+      broadcastChannel,
+      purgeInterval: 0,
+    });
+  return [useTab(), useTab()];
+}
+
+function nextEvent<Event extends CustomEvent>(
+  graffiti: GraffitiLocal,
+  type: string,
+) {
+  return new Promise<Event["detail"]>((resolve) =>
+    graffiti.sessionEvents.addEventListener(
+      type,
+      (event) => resolve((event as Event).detail),
+      { once: true },
+    ),
+  );
+}
+
+describe("broadcast between tabs", () => {
+  it("shares logins and logouts", async () => {
+    const [tab1, tab2] = useTabs();
+    const session = { actor: await tab1.handleToActor("someone") };
+
+    const login = nextEvent<GraffitiLoginEvent>(tab2, "login");
+    await tab1.login(session.actor);
+    await expect(login).resolves.toEqual({ session });
+
+    const logout = nextEvent<GraffitiLogoutEvent>(tab2, "logout");
+    await tab1.logout(session);
+    await expect(logout).resolves.toEqual({ actor: session.actor });
+  });
+
+  it("shares posts and deletes with live discovery", async () => {
+    const [tab1, tab2] = useTabs();
+    const channels = [randomBase64()];
+    // Wait until the stream has caught up and is listening
+    await tab2.post<{}>({ value: {}, channels }, session);
+    const stream = tab2.discoverLive<{}>(channels, {}, session);
+    await stream.next();
+
+    const posted = await tab1.post<{}>(
+      { value: { hello: "world" }, channels },
+      session,
+    );
+    const first = await stream.next();
+    assert(!first.done && !first.value.tombstone);
+    expect(first.value.object).toEqual(posted);
+
+    await tab1.delete(posted, session);
+    const second = await stream.next();
+    assert(!second.done);
+    expect(second.value.tombstone).toBe(true);
+    expect(second.value.object.url).toBe(posted.url);
+
+    await stream.return();
+  });
+});
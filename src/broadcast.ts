@@ -0,0 +1,59 @@
+import type { GraffitiLocalStoredObject } from "./storage.js";
+
+/**
+ * A message shared between instances that use the same database.
+ */
+export type GraffitiLocalBroadcastMessage =
+  | { type: "login"; actor: string }
+  | { type: "logout"; actor: string }
+  | { type: "change"; object: GraffitiLocalStoredObject };
+
+/**
+ * Dispatched on {@link GraffitiLocalBroadcast.events} for each message
+ * from another instance, with the message's type as the event name.
+ */
+export type GraffitiLocalBroadcastEvent<
+  Type extends GraffitiLocalBroadcastMessage["type"],
+> = CustomEvent<Extract<GraffitiLocalBroadcastMessage, { type: Type }>>;
+
+/**
+ * Shares logins, logouts and writes with other instances that use
+ * the same database, typically in other tabs of the same browser,
+ * over a [`BroadcastChannel`](https://developer.mozilla.org/en-US/docs/Web/API/BroadcastChannel),
+ * so they find out right away rather than on their next reload or poll.
+ * Messages are not delivered back to the instance that posted them.
+ * Where `BroadcastChannel` is unavailable, nothing is shared.
+ */
+export class GraffitiLocalBroadcast {
+  /**
+   * Dispatches {@link GraffitiLocalBroadcastEvent}s.
+   */
+  readonly events = new EventTarget();
+  protected channel: BroadcastChannel | undefined;
+
+  constructor(name: string) {
+    if (typeof BroadcastChannel === "undefined") return;
+    this.channel = new BroadcastChannel(name);
+    this.channel.onmessage = (event: MessageEvent) => {
+      const message: GraffitiLocalBroadcastMessage = event.data;
+      this.events.dispatchEvent(
+        new CustomEvent(message.type, { detail: message }),
+      );
+    };
+    // Don't keep Node.js processes alive just to listen
+    const channel = this.channel as BroadcastChannel & { unref?(): void };
+    channel.unref?.();
+  }
+
+  post(message: GraffitiLocalBroadcastMessage) {
+    this.channel?.postMessage(message);
+  }
+
+  /**
+   * Stops sharing and listening for messages.
+   */
+  close() {
+    this.channel?.close();
+    this.channel = undefined;
+  }
+}
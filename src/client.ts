@@ -0,0 +1,228 @@
+import {
+  GraffitiRuntimeTypes,
+  unpackObjectUrl,
+  type Graffiti,
+  type GraffitiObjectStream,
+  type GraffitiSession,
+  type JSONSchema,
+} from "@graffiti-garden/api";
+import {
+  GraffitiLocalIdentity,
+  type GraffitiLocalIdentityOptions,
+} from "./identity.js";
+import {
+  MEDIA_ACTOR_HEADER,
+  MEDIA_ALLOWED_HEADER,
+  NDJSON,
+  SESSION_HEADER,
+  deserializeEntry,
+  deserializeError,
+  type GraffitiLocalHttpMessage,
+} from "./http.js";
+import { lines } from "./utilities.js";
+
+export interface GraffitiLocalClientOptions extends Pick<
+  GraffitiLocalIdentityOptions,
+  "sessionStore" | "loginPrompt" | "reloadOnLogin"
+> {
+  /**
+   * The URL that a {@link GraffitiLocalServer} is served from.
+   */
+  url: string | URL;
+  /**
+   * The function used to make requests.
+   * Defaults to the global `fetch`.
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * An implementation of the [Graffiti API](https://api.graffiti.garden/classes/Graffiti.html)
+ * that reads and writes through a {@link GraffitiLocalServer},
+ * so that several processes and browsers can share one store.
+ * Logging in works as in {@link GraffitiLocal}, and sessions
+ * are passed to the server in the `Graffiti-Session-Actor` header.
+ */
+export class GraffitiLocalClient extends GraffitiRuntimeTypes {
+  constructor(options: GraffitiLocalClientOptions) {
+    super(new GraffitiLocalClient_(options));
+  }
+}
+
+class GraffitiLocalClient_ implements Graffiti {
+  protected graffitiLocalIdentity: GraffitiLocalIdentity;
+  login: Graffiti["login"];
+  logout: Graffiti["logout"];
+  handleToActor: Graffiti["handleToActor"];
+  actorToHandle: Graffiti["actorToHandle"];
+  sessionEvents: Graffiti["sessionEvents"];
+
+  protected url: URL;
+  protected fetch: typeof fetch;
+
+  constructor(options: GraffitiLocalClientOptions) {
+    this.graffitiLocalIdentity = new GraffitiLocalIdentity(options);
+    this.login = this.graffitiLocalIdentity.login;
+    this.logout = this.graffitiLocalIdentity.logout;
+    this.handleToActor = this.graffitiLocalIdentity.handleToActor;
+    this.actorToHandle = this.graffitiLocalIdentity.actorToHandle;
+    this.sessionEvents = this.graffitiLocalIdentity.sessionEvents;
+
+    // Resolve paths relative to the whole URL
+    const url = String(options.url);
+    this.url = new URL(url.endsWith("/") ? url : `${url}/`);
+    this.fetch = options.fetch ?? ((...args) => fetch(...args));
+  }
+
+  protected async request(
+    path: string,
+    init: RequestInit,
+    session: GraffitiSession | null | undefined,
+    search?: Record<string, unknown>,
+  ): Promise<Response> {
+    const url = new URL(path, this.url);
+    for (const [name, value] of Object.entries(search ?? {})) {
+      if (value !== undefined)
+        url.searchParams.set(name, JSON.stringify(value));
+    }
+    const headers = new Headers(init.headers);
+    if (session) {
+      headers.set(SESSION_HEADER, encodeURIComponent(session.actor));
+    }
+
+    const response = await this.fetch(url, { ...init, headers });
+    if (response.ok) return response;
+    let error;
+    try {
+      error = await response.json();
+    } catch {
+      throw new Error(`Request failed with status ${response.status}`);
+    }
+    throw deserializeError(error);
+  }
+
+  post: Graffiti["post"] = async (partialObject, session) => {
+    const response = await this.request(
+      "objects",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(partialObject),
+      },
+      session,
+    );
+    return response.json();
+  };
+
+  get: Graffiti["get"] = async (url, schema, session) => {
+    const response = await this.request(
+      `objects/${encodeURIComponent(unpackObjectUrl(url))}`,
+      {},
+      session,
+      { schema },
+    );
+    return response.json();
+  };
+
+  delete: Graffiti["delete"] = async (url, session) => {
+    const response = await this.request(
+      `objects/${encodeURIComponent(unpackObjectUrl(url))}`,
+      { method: "DELETE" },
+      session,
+    );
+    return response.json();
+  };
+
+  protected async *stream<Schema extends JSONSchema>(
+    search: Record<string, unknown>,
+    session: GraffitiSession | null | undefined,
+  ): GraffitiObjectStream<Schema> {
+    const response = await this.request(
+      "discover",
+      { headers: { Accept: NDJSON } },
+      session,
+      search,
+    );
+    for await (const line of lines(text(response))) {
+      if (!line) continue;
+      const message: GraffitiLocalHttpMessage = JSON.parse(line);
+      if ("entry" in message) {
+        yield deserializeEntry<Schema>(message.entry);
+      } else if ("cursor" in message) {
+        return { cursor: message.cursor };
+      } else {
+        throw deserializeError(message.error);
+      }
+    }
+    throw new Error("The discover stream ended unexpectedly");
+  }
+
+  discover: Graffiti["discover"] = (...args) => {
+    const [channels, schema, session] = args;
+    return this.stream<(typeof args)[1]>({ channels, schema }, session);
+  };
+
+  continueDiscover: Graffiti["continueDiscover"] = (cursor, session) =>
+    this.stream({ cursor }, session);
+
+  postMedia: Graffiti["postMedia"] = async (media, session) => {
+    const response = await this.request(
+      "media",
+      {
+        method: "POST",
+        headers: { "Content-Type": media.data.type },
+        body: media.data,
+      },
+      session,
+      { allowed: media.allowed },
+    );
+    const { url } = await response.json();
+    return url;
+  };
+
+  getMedia: Graffiti["getMedia"] = async (mediaUrl, accept, session) => {
+    const response = await this.request(
+      `media/${encodeURIComponent(mediaUrl)}`,
+      accept.types ? { headers: { Accept: accept.types.join(", ") } } : {},
+      session,
+      { maxBytes: accept.maxBytes },
+    );
+    const allowed = response.headers.get(MEDIA_ALLOWED_HEADER);
+    return {
+      data: new Blob([await response.arrayBuffer()], {
+        type: response.headers.get("Content-Type") ?? "",
+      }),
+      actor: decodeURIComponent(response.headers.get(MEDIA_ACTOR_HEADER)!),
+      allowed:
+        allowed === null ? undefined : JSON.parse(decodeURIComponent(allowed)),
+    };
+  };
+
+  deleteMedia: Graffiti["deleteMedia"] = async (mediaUrl, session) => {
+    await this.request(
+      `media/${encodeURIComponent(mediaUrl)}`,
+      { method: "DELETE" },
+      session,
+    );
+  };
+}
+
+/**
+ * Decodes a response body as it arrives, cancelling
+ * the request if the consumer stops reading early.
+ */
+async function* text(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield decoder.decode(value, { stream: true });
+    }
+    yield decoder.decode();
+  } finally {
+    await reader.cancel();
+  }
+}
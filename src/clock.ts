@@ -0,0 +1,106 @@
+import { randomBase64 } from "./utilities.js";
+
+const PHYSICAL_DIGITS = 15;
+const COUNTER_DIGITS = 6;
+const MAX_COUNTER = 10 ** COUNTER_DIGITS - 1;
+
+/**
+ * Converts a `lastModified` value into a string that sorts
+ * in the same order as the timestamps it represents.
+ * Objects written by older versions of this package used
+ * the database's update sequence, which sorts before any
+ * hybrid logical clock timestamp.
+ */
+export function lastModifiedKey(lastModified: string | number): string {
+  return lastModified.toString().padStart(PHYSICAL_DIGITS, "0");
+}
+
+/**
+ * Returns the wall-clock time in milliseconds at which
+ * a `lastModified` timestamp was issued, or `undefined`
+ * for legacy timestamps that don't record it.
+ */
+export function lastModifiedTime(
+  lastModified: string | number,
+): number | undefined {
+  if (typeof lastModified !== "string") return;
+  const physical = Number(lastModified.split("-")[0]);
+  return Number.isSafeInteger(physical) ? physical : undefined;
+}
+
+/**
+ * A [hybrid logical clock](https://cse.buffalo.edu/tech-reports/2014-04.pdf)
+ * used to stamp objects with a `lastModified` that can be compared
+ * across databases, unlike PouchDB's per-database update sequence.
+ *
+ * Timestamps are strings of the form `physical-counter-node` with
+ * fixed-width numeric parts so they sort lexicographically.
+ * The physical part tracks wall-clock milliseconds,
+ * the counter orders events within the same millisecond,
+ * and the node breaks ties between databases.
+ */
+export class GraffitiLocalClock {
+  protected physical = 0;
+  protected counter = 0;
+  readonly node: string;
+  protected wallClock: () => number;
+
+  /**
+   * @param node Breaks ties with other databases. Defaults to a random string.
+   * @param wallClock Returns the wall-clock time in milliseconds.
+   * Defaults to `Date.now`.
+   */
+  constructor(node?: string, wallClock?: () => number) {
+    this.node = node ?? randomBase64(6);
+    this.wallClock = wallClock ?? Date.now;
+  }
+
+  protected encode() {
+    return [
+      this.physical.toString().padStart(PHYSICAL_DIGITS, "0"),
+      this.counter.toString().padStart(COUNTER_DIGITS, "0"),
+      this.node,
+    ].join("-");
+  }
+
+  /**
+   * Returns a timestamp greater than any
+   * previously issued or received.
+   */
+  now(): string {
+    const wall = this.wallClock();
+    if (wall > this.physical) {
+      this.physical = wall;
+      this.counter = 0;
+    } else if (this.counter < MAX_COUNTER) {
+      this.counter++;
+    } else {
+      // Borrow from the future rather than overflow
+      this.physical++;
+      this.counter = 0;
+    }
+    return this.encode();
+  }
+
+  /**
+   * Advances the clock past a timestamp written elsewhere,
+   * so that anything written afterwards is ordered after it.
+   * Legacy numeric timestamps are ignored.
+   */
+  receive(timestamp: string | number) {
+    if (typeof timestamp !== "string") return;
+    const [physicalString, counterString] = timestamp.split("-");
+    const physical = Number(physicalString);
+    const counter = Number(counterString);
+    if (!Number.isSafeInteger(physical) || !Number.isSafeInteger(counter)) {
+      return;
+    }
+    if (
+      physical > this.physical ||
+      (physical === this.physical && counter > this.counter)
+    ) {
+      this.physical = physical;
+      this.counter = counter;
+    }
+  }
+}
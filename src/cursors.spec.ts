@@ -0,0 +1,25 @@
+import { describe, it, expect, assert } from "vitest";
+import { GraffitiErrorCursorExpired } from "@graffiti-garden/api";
+import { GraffitiLocal } from "./index";
+import { randomBase64 } from "./utilities";
+
+const session = { actor: "did:example:someone" };
+
+describe("discover cursors", () => {
+  it("are opaque and can only be used once", async () => {
+    const graffiti = new GraffitiLocal({ purgeInterval: 0 });
+    const channel = randomBase64();
+
+    const iterator = graffiti.discover<{}>([channel], {}, session);
+    const result = await iterator.next();
+    assert(result.done);
+    const { cursor } = result.value;
+    expect(cursor).not.toContain(channel);
+
+    const first = graffiti.continueDiscover(cursor, session);
+    await expect(first.next()).resolves.toHaveProperty("done", true);
+
+    const second = graffiti.continueDiscover(cursor, session);
+    await expect(second.next()).rejects.toThrow(GraffitiErrorCursorExpired);
+  });
+});
@@ -0,0 +1,199 @@
+import {
+  GraffitiErrorCursorExpired,
+  GraffitiErrorForbidden,
+  type JSONSchema,
+} from "@graffiti-garden/api";
+import type Ajv from "ajv";
+import type { ValidateFunction } from "ajv";
+import { randomBase64 } from "./utilities.js";
+import type {
+  GraffitiLocalChannelPosition,
+  GraffitiLocalStorage,
+} from "./storage.js";
+
+const CURSOR_PREFIX = "discover:";
+
+export type ContinueDiscoverParams = {
+  lastDiscovered: number;
+  lastDiscoveryStart: number;
+  /**
+   * The database's update sequence when the last discover began.
+   * It is opaque, but only meaningful to the database it came from,
+   * which is where the cursor is stored.
+   */
+  since: string | number;
+  /**
+   * Where to resume a discover that stopped partway through
+   * reading its channels, because it reached its `limit`.
+   */
+  scan?: {
+    /**
+     * The index of the channel being read,
+     * unless channels are merged by `order`.
+     */
+    channel?: number;
+    /**
+     * The last object read from that channel.
+     */
+    after?: GraffitiLocalChannelPosition;
+  };
+  /**
+   * The most objects to yield per page, if the discover is paginated.
+   */
+  limit?: number;
+  /**
+   * How objects from different channels are merged, if they are.
+   */
+  order?: GraffitiLocalDiscoverOrder;
+};
+
+/**
+ * Merges discovered channels into a single stream ordered
+ * by `lastModified`, oldest or newest first.
+ */
+export type GraffitiLocalDiscoverOrder = "ascending" | "descending";
+
+/**
+ * Everything needed to continue a discover,
+ * stored server-side behind an opaque cursor.
+ */
+export type GraffitiLocalDiscoverCursor = {
+  channels: string[];
+  schema: JSONSchema;
+  actor?: string | null;
+  continueParams: ContinueDiscoverParams;
+  /**
+   * Wall-clock time after which the cursor can no longer be used.
+   */
+  expiresAt: number;
+};
+
+const CURSOR_SCHEMA = {
+  type: "object",
+  properties: {
+    channels: { type: "array", items: { type: "string" } },
+    schema: { type: ["object", "boolean"] },
+    actor: { type: ["string", "null"] },
+    continueParams: {
+      type: "object",
+      properties: {
+        lastDiscovered: { type: "number" },
+        lastDiscoveryStart: { type: "number" },
+        since: { type: ["string", "number"] },
+        scan: {
+          type: "object",
+          properties: {
+            channel: { type: "integer", minimum: 0 },
+            after: {
+              type: "object",
+              properties: {
+                lastModified: { type: ["string", "number"] },
+                url: { type: "string" },
+              },
+              required: ["lastModified", "url"],
+            },
+          },
+        },
+        limit: { type: "integer", minimum: 1 },
+        order: { enum: ["ascending", "descending"] },
+      },
+      required: ["lastDiscovered", "lastDiscoveryStart", "since"],
+    },
+    expiresAt: { type: "number" },
+  },
+  required: ["channels", "schema", "continueParams", "expiresAt"],
+} as const satisfies JSONSchema;
+
+let validateCursor: ValidateFunction<GraffitiLocalDiscoverCursor> | undefined;
+async function compileCursorSchema() {
+  if (!validateCursor) {
+    const { default: Ajv } = await import("ajv");
+    const ajv: Ajv = new Ajv({ strict: false });
+    validateCursor = ajv.compile<GraffitiLocalDiscoverCursor>(CURSOR_SCHEMA);
+  }
+  return validateCursor;
+}
+
+/**
+ * Stores discover cursors server-side so that the cursors
+ * handed to clients are opaque random tokens that reveal
+ * nothing about the channels or schema being discovered.
+ * Each cursor can only be used once and only by the actor
+ * that created it.
+ */
+export class GraffitiLocalCursors {
+  protected storage: GraffitiLocalStorage;
+  protected now: () => number;
+
+  /**
+   * @param now Returns the current time in milliseconds,
+   * against which cursors expire. Defaults to `Date.now`.
+   */
+  constructor(storage: GraffitiLocalStorage, now?: () => number) {
+    this.storage = storage;
+    this.now = now ?? Date.now;
+  }
+
+  async create(cursor: GraffitiLocalDiscoverCursor): Promise<string> {
+    const token = randomBase64();
+    await this.storage.putCursor(token, cursor);
+    return CURSOR_PREFIX + token;
+  }
+
+  /**
+   * Looks up a cursor and removes it so it cannot be used again.
+   * Throws {@link GraffitiErrorCursorExpired} if the cursor does not
+   * exist, has already been used or has expired, and
+   * {@link GraffitiErrorForbidden} if it belongs to another actor.
+   */
+  async consume(
+    cursorString: string,
+    actor?: string | null,
+  ): Promise<GraffitiLocalDiscoverCursor> {
+    if (!cursorString.startsWith(CURSOR_PREFIX)) {
+      throw new GraffitiErrorCursorExpired("Cursor not found");
+    }
+    const token = cursorString.slice(CURSOR_PREFIX.length);
+
+    const stored = await this.storage.getCursor(token);
+    if (!stored) {
+      throw new GraffitiErrorCursorExpired("Cursor not found");
+    }
+
+    const { cursor, rev } = stored;
+    const validate = await compileCursorSchema();
+    if (!validate(cursor)) {
+      throw new GraffitiErrorCursorExpired("Cursor is malformed");
+    }
+
+    // Check the actor before consuming so that another
+    // actor cannot invalidate someone else's cursor
+    if (cursor.actor && cursor.actor !== actor) {
+      throw new GraffitiErrorForbidden(
+        "Cannot continue a cursor started by another actor",
+      );
+    }
+
+    try {
+      await this.storage.removeCursor(token, rev);
+    } catch {
+      // Someone else consumed it first
+      throw new GraffitiErrorCursorExpired("Cursor has already been used");
+    }
+
+    if (this.now() > cursor.expiresAt) {
+      throw new GraffitiErrorCursorExpired("Cursor has expired");
+    }
+
+    return cursor;
+  }
+
+  /**
+   * Removes cursors that have expired without being used.
+   *
+   * @returns The number of cursors that were removed.
+   */
+  purgeExpired(): Promise<number> {
+    return this.storage.purgeCursors(this.now());
+  }
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import {
+  GraffitiLocal,
+  GraffitiLocalErrorDecryption,
+  GraffitiLocalMemoryStorage,
+} from "./index";
+import { randomBase64 } from "./utilities";
+
+const alice = { actor: "did:example:alice" };
+const bob = { actor: "did:example:bob" };
+
+async function discoverAll(graffiti: GraffitiLocal, channels: string[]) {
+  const results = [];
+  for await (const result of graffiti.discover(channels, {}, alice)) {
+    results.push(result);
+  }
+  return results;
+}
+
+describe("encryption at rest", () => {
+  it("encrypts values and media with a passphrase", async () => {
+    const storage = new GraffitiLocalMemoryStorage();
+    const graffiti = new GraffitiLocal({
+      storage,
+      encryption: { passphrase: "correct horse battery staple" },
+      indexes: ["value.type"],
+    });
+    const channels = [randomBase64()];
+    const posted = await graffiti.post<{}>(
+      { value: { type: "note", text: "secret" }, channels },
+      alice,
+    );
+    const mediaUrl = await graffiti.postMedia(
+      { data: new Blob(["hidden"], { type: "text/plain" }) },
+      alice,
+    );
+
+    // Nothing readable is stored
+    const stored = await storage.get(posted.url);
+    expect(JSON.stringify(stored)).not.toContain("secret");
+    const { media: marker } = (await storage.get(mediaUrl))!;
+    const media = await storage.getMedia(marker!.hash);
+    expect(await media!.text()).not.toContain("hidden");
+
+    await expect(graffiti.get(posted, {}, alice)).resolves.toMatchObject({
+      value: { type: "note", text: "secret" },
+    });
+    const schema = {
+      properties: {
+        value: { required: ["type"], properties: { type: { const: "note" } } },
+      },
+    };
+    const discovered = graffiti.discover(channels, schema, alice);
+    const first = await discovered.next();
+    expect(first.value).toMatchObject({ object: { url: posted.url } });
+    const { data } = await graffiti.getMedia(mediaUrl, {}, alice);
+    expect(await data.text()).toBe("hidden");
+
+    // A wrong passphrase or none at all is a clear error
+    for (const encryption of [{ passphrase: "wrong" }, undefined]) {
+      const other = new GraffitiLocal({ storage, encryption });
+      await expect(other.get(posted, {}, alice)).rejects.toThrow(
+        GraffitiLocalErrorDecryption,
+      );
+      await expect(other.getMedia(mediaUrl, {}, alice)).rejects.toThrow(
+        GraffitiLocalErrorDecryption,
+      );
+      const [result] = await discoverAll(other, channels);
+      expect(result.error).toBeInstanceOf(GraffitiLocalErrorDecryption);
+    }
+  });
+
+  it("encrypts private objects with per-actor keys", async () => {
+    const storage = new GraffitiLocalMemoryStorage();
+    const secrets: Record<string, string> = { [alice.actor]: randomBase64() };
+    const graffiti = new GraffitiLocal({
+      storage,
+      encryption: {
+        actorSecret: (actor) => secrets[actor],
+        privateOnly: true,
+      },
+    });
+    const channels = [randomBase64()];
+    const open = await graffiti.post<{}>(
+      { value: { text: "public" }, channels },
+      bob,
+    );
+    const closed = await graffiti.post<{}>(
+      { value: { text: "private" }, channels, allowed: [] },
+      alice,
+    );
+    // Bob has no key, so can't post privately
+    await expect(
+      graffiti.post<{}>({ value: {}, channels, allowed: [] }, bob),
+    ).rejects.toThrow();
+
+    expect((await storage.get(open.url))?.value).toEqual({ text: "public" });
+    expect(JSON.stringify(await storage.get(closed.url))).not.toContain(
+      "private",
+    );
+    const results = await discoverAll(graffiti, channels);
+    expect(results).toMatchObject([
+      { object: { value: { text: "public" } } },
+      { object: { value: { text: "private" } } },
+    ]);
+
+    // Without alice's key her object can't be read
+    delete secrets[alice.actor];
+    const other = new GraffitiLocal({
+      storage,
+      encryption: { actorSecret: (actor) => secrets[actor] },
+    });
+    await expect(other.get(closed, {}, alice)).rejects.toThrow(
+      GraffitiLocalErrorDecryption,
+    );
+  });
+});
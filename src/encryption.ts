@@ -0,0 +1,291 @@
+import { GraffitiErrorForbidden } from "@graffiti-garden/api";
+import { decodeBase64, decodeObjectUrl, encodeBase64 } from "./utilities.js";
+import type { GraffitiLocalStoredObject } from "./storage.js";
+
+const ENCRYPTED_FIELD = "graffitiLocalEncrypted";
+const AES_GCM = "AES-GCM";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const PBKDF2_ITERATIONS = 600_000;
+const DEFAULT_SALT = "graffiti-local";
+
+/**
+ * How many bytes of media are encrypted together as one record,
+ * so that media can be encrypted and decrypted a record at a time.
+ */
+export const MEDIA_RECORD_BYTES = 64 * 1024;
+/**
+ * How many bytes encrypting adds to each record of media.
+ */
+export const MEDIA_RECORD_OVERHEAD = IV_BYTES + TAG_BYTES;
+
+// Binds each record to its position and to whether it is the
+// last, so records can't be reordered or the media truncated
+function mediaRecordData(index: number, last: boolean) {
+  const data = new Uint8Array(5);
+  new DataView(data.buffer).setUint32(0, index);
+  data[4] = Number(last);
+  return data;
+}
+
+/**
+ * How to encrypt object values and media at rest. Channels,
+ * allowed lists and timestamps stay readable so that
+ * discover and access control keep working.
+ */
+export interface GraffitiLocalEncryptionOptions {
+  /**
+   * A passphrase from which to derive the key for every actor,
+   * shared by everyone who should be able to read the objects.
+   */
+  passphrase?: string;
+  /**
+   * Returns a high-entropy secret for an actor from which to derive
+   * the key for that actor's objects, or `undefined` if it is not
+   * known, in which case {@link passphrase} is used if given.
+   */
+  actorSecret?: (
+    actor: string,
+  ) => string | undefined | Promise<string | undefined>;
+  /**
+   * Salt for deriving keys. Defaults to `"graffiti-local"`.
+   */
+  salt?: string;
+  /**
+   * Only encrypt objects and media posted with an `allowed` list.
+   * Defaults to `false`, encrypting everything.
+   */
+  privateOnly?: boolean;
+}
+
+/**
+ * Thrown when an encrypted object or media can't be decrypted,
+ * because there is no key for its actor or the key is wrong.
+ */
+export class GraffitiLocalErrorDecryption extends Error {
+  constructor(message?: string) {
+    super(message);
+    this.name = "GraffitiLocalErrorDecryption";
+    Object.setPrototypeOf(this, GraffitiLocalErrorDecryption.prototype);
+  }
+}
+
+type EncryptedValue = {
+  [ENCRYPTED_FIELD]: string;
+};
+
+/**
+ * Whether an object value was encrypted by {@link GraffitiLocalEncryption}.
+ */
+export function isEncryptedValue(value: {}): value is EncryptedValue {
+  return typeof (value as EncryptedValue)[ENCRYPTED_FIELD] === "string";
+}
+
+/**
+ * Encrypts object values and media with AES-GCM using keys derived
+ * through WebCrypto: with PBKDF2 from a passphrase or with HKDF
+ * from a per-actor secret. Values are bound to their object's URL
+ * so they can't be moved to another object.
+ *
+ * Objects that were stored unencrypted stay readable.
+ */
+export class GraffitiLocalEncryption {
+  protected options: GraffitiLocalEncryptionOptions;
+  protected keys = new Map<string, Promise<CryptoKey | undefined>>();
+  protected passphraseKey: Promise<CryptoKey> | undefined;
+
+  constructor(options: GraffitiLocalEncryptionOptions) {
+    this.options = options;
+  }
+
+  protected get salt() {
+    return new TextEncoder().encode(this.options.salt ?? DEFAULT_SALT);
+  }
+
+  protected async deriveKey(actor: string): Promise<CryptoKey | undefined> {
+    const secret = await this.options.actorSecret?.(actor);
+    if (secret !== undefined) {
+      const material = await crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode(secret),
+        "HKDF",
+        false,
+        ["deriveKey"],
+      );
+      return crypto.subtle.deriveKey(
+        {
+          name: "HKDF",
+          hash: "SHA-256",
+          salt: this.salt,
+          info: new TextEncoder().encode(actor),
+        },
+        material,
+        { name: AES_GCM, length: 256 },
+        false,
+        ["encrypt", "decrypt"],
+      );
+    }
+
+    const { passphrase } = this.options;
+    if (passphrase === undefined) return;
+    if (!this.passphraseKey) {
+      this.passphraseKey = (async () => {
+        const material = await crypto.subtle.importKey(
+          "raw",
+          new TextEncoder().encode(passphrase),
+          "PBKDF2",
+          false,
+          ["deriveKey"],
+        );
+        return crypto.subtle.deriveKey(
+          {
+            name: "PBKDF2",
+            hash: "SHA-256",
+            salt: this.salt,
+            iterations: PBKDF2_ITERATIONS,
+          },
+          material,
+          { name: AES_GCM, length: 256 },
+          false,
+          ["encrypt", "decrypt"],
+        );
+      })();
+    }
+    return this.passphraseKey;
+  }
+
+  protected key(actor: string) {
+    let key = this.keys.get(actor);
+    if (!key) {
+      key = this.deriveKey(actor);
+      // Retry if deriving the key failed
+      key.catch(() => this.keys.delete(actor));
+      this.keys.set(actor, key);
+    }
+    return key;
+  }
+
+  protected async encryptBytes(
+    actor: string,
+    bytes: Uint8Array,
+    additionalData: Uint8Array,
+  ): Promise<Uint8Array> {
+    const key = await this.key(actor);
+    if (!key) {
+      throw new GraffitiErrorForbidden(
+        `There is no encryption key for ${actor}`,
+      );
+    }
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: AES_GCM, iv, additionalData: additionalData as BufferSource },
+      key,
+      bytes as BufferSource,
+    );
+    const encrypted = new Uint8Array(IV_BYTES + ciphertext.byteLength);
+    encrypted.set(iv);
+    encrypted.set(new Uint8Array(ciphertext), IV_BYTES);
+    return encrypted;
+  }
+
+  protected async decryptBytes(
+    actor: string,
+    encrypted: Uint8Array,
+    additionalData: Uint8Array,
+  ): Promise<Uint8Array> {
+    const key = await this.key(actor);
+    if (!key) {
+      throw new GraffitiLocalErrorDecryption(
+        `There is no key to decrypt data by ${actor}`,
+      );
+    }
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        {
+          name: AES_GCM,
+          iv: encrypted.slice(0, IV_BYTES),
+          additionalData: additionalData as BufferSource,
+        },
+        key,
+        encrypted.slice(IV_BYTES),
+      );
+      return new Uint8Array(plaintext);
+    } catch {
+      throw new GraffitiLocalErrorDecryption(
+        `The key for ${actor} is wrong or the data has been tampered with`,
+      );
+    }
+  }
+
+  /**
+   * Whether an object or media posted with `allowed` is encrypted.
+   */
+  encrypts(allowed: string[] | null | undefined) {
+    return !this.options.privateOnly || !!allowed;
+  }
+
+  /**
+   * Returns the object with its value encrypted, if it should be.
+   */
+  async encryptObject(
+    object: GraffitiLocalStoredObject,
+  ): Promise<GraffitiLocalStoredObject> {
+    if (!this.encrypts(object.allowed)) return object;
+
+    const { actor } = decodeObjectUrl(object.url);
+    const encrypted = await this.encryptBytes(
+      actor,
+      new TextEncoder().encode(JSON.stringify(object.value)),
+      new TextEncoder().encode(object.url),
+    );
+    const value: EncryptedValue = {
+      [ENCRYPTED_FIELD]: encodeBase64(encrypted),
+    };
+    return { ...object, value };
+  }
+
+  /**
+   * Returns an object's value, decrypting it if it is encrypted.
+   *
+   * @throws {@link GraffitiLocalErrorDecryption} if it can't be decrypted.
+   */
+  async decryptValue(object: GraffitiLocalStoredObject): Promise<{}> {
+    if (!isEncryptedValue(object.value)) return object.value;
+
+    const { actor } = decodeObjectUrl(object.url);
+    const plaintext = await this.decryptBytes(
+      actor,
+      decodeBase64(object.value[ENCRYPTED_FIELD]),
+      new TextEncoder().encode(object.url),
+    );
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  }
+
+  /**
+   * Encrypts the record of media posted by `actor` at `index`,
+   * the {@link MEDIA_RECORD_BYTES} bytes starting at
+   * `index * MEDIA_RECORD_BYTES`.
+   */
+  encryptMediaRecord(
+    actor: string,
+    bytes: Uint8Array,
+    index: number,
+    last: boolean,
+  ): Promise<Uint8Array> {
+    return this.encryptBytes(actor, bytes, mediaRecordData(index, last));
+  }
+
+  /**
+   * Decrypts a record of media encrypted by {@link encryptMediaRecord}.
+   *
+   * @throws {@link GraffitiLocalErrorDecryption} if it can't be decrypted.
+   */
+  decryptMediaRecord(
+    actor: string,
+    record: Uint8Array,
+    index: number,
+    last: boolean,
+  ): Promise<Uint8Array> {
+    return this.decryptBytes(actor, record, mediaRecordData(index, last));
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { GraffitiLocal, GraffitiLocalMemoryStorage } from "./index";
+import { randomBase64 } from "./utilities";
+
+const session1 = { actor: "did:example:someone" };
+const session2 = { actor: "did:example:someoneelse" };
+
+const useGraffiti = () =>
+  new GraffitiLocal({
+    storage: new GraffitiLocalMemoryStorage(),
+    purgeInterval: 0,
+  });
+
+describe("object events", () => {
+  it("yields posts, deletes and media after they are stored", async () => {
+    const graffiti = useGraffiti();
+    const events = graffiti.objectEvents(session1);
+    // Start listening before anything happens
+    const first = events.next();
+
+    const channels = [randomBase64()];
+    const posted = await graffiti.post<{}>({ value: {}, channels }, session1);
+    await graffiti.delete(posted, session1);
+    const mediaUrl = await graffiti.postMedia(
+      { data: new Blob(["hi"], { type: "text/plain" }) },
+      session1,
+    );
+    await graffiti.deleteMedia(mediaUrl, session1);
+
+    const expected = [
+      { type: "post", url: posted.url, actor: session1.actor, channels },
+      { type: "delete", url: posted.url, actor: session1.actor, channels },
+      { type: "postMedia", url: mediaUrl, actor: session1.actor, channels: [] },
+      {
+        type: "deleteMedia",
+        url: mediaUrl,
+        actor: session1.actor,
+        channels: [],
+      },
+    ];
+    await expect(first).resolves.toEqual({ done: false, value: expected[0] });
+    for (const event of expected.slice(1)) {
+      await expect(events.next()).resolves.toEqual({
+        done: false,
+        value: event,
+      });
+    }
+    await events.return();
+  });
+
+  it("filters by what the session is allowed to see", async () => {
+    const graffiti = useGraffiti();
+    const channels = [randomBase64(), randomBase64()];
+    const events = graffiti.objectEvents(session2, {
+      channels: [channels[0]],
+    });
+    const first = events.next();
+
+    await graffiti.post<{}>(
+      { value: {}, channels: [channels[0]], allowed: [] },
+      session1,
+    );
+    await graffiti.post<{}>({ value: {}, channels: [channels[1]] }, session1);
+    const visible = await graffiti.post<{}>(
+      { value: {}, channels, allowed: [session2.actor] },
+      session1,
+    );
+
+    // Channels other than the watched ones are masked
+    await expect(first).resolves.toEqual({
+      done: false,
+      value: {
+        type: "post",
+        url: visible.url,
+        actor: session1.actor,
+        channels: [channels[0]],
+      },
+    });
+    await events.return();
+  });
+});
@@ -0,0 +1,132 @@
+import {
+  isActorAllowedGraffitiObject,
+  maskGraffitiObject,
+  type GraffitiObjectBase,
+  type GraffitiSession,
+} from "@graffiti-garden/api";
+
+/**
+ * What happened to an object: it was posted or deleted,
+ * or it is the object behind media that was posted or deleted.
+ */
+export type GraffitiLocalObjectEventType =
+  "post" | "delete" | "postMedia" | "deleteMedia";
+
+/**
+ * A change to an object, yielded by
+ * {@link GraffitiLocalObjectEvents.watch} once it is stored.
+ */
+export interface GraffitiLocalObjectEvent {
+  type: GraffitiLocalObjectEventType;
+  url: string;
+  actor: string;
+  /**
+   * The object's channels, masked like in discover to the
+   * watched channels unless the session is the object's actor.
+   */
+  channels: string[];
+}
+
+/**
+ * Options for {@link GraffitiLocalObjectEvents.watch}.
+ */
+export interface GraffitiLocalObjectEventOptions {
+  /**
+   * Only yield changes to objects in at least one of these channels.
+   * Without it, changes to every object the session
+   * can see are yielded.
+   */
+  channels?: string[];
+}
+
+/**
+ * Lets devtools, caches and the like observe the objects and
+ * media that are posted and deleted, without depending on how
+ * they are stored. Only changes made through this instance
+ * are observed, not those replicated or made in other tabs.
+ */
+export class GraffitiLocalObjectEvents {
+  protected target = new EventTarget();
+  protected isAllowed: (
+    object: GraffitiObjectBase,
+    session?: GraffitiSession | null,
+  ) => boolean | Promise<boolean>;
+
+  /**
+   * @param isAllowed Whether a session can see an object.
+   * Defaults to checking the object's `allowed` list, but
+   * can also let in the members of groups in the list.
+   */
+  constructor(
+    isAllowed: GraffitiLocalObjectEvents["isAllowed"] = isActorAllowedGraffitiObject,
+  ) {
+    this.isAllowed = isAllowed;
+  }
+
+  /**
+   * Tells watchers that `object` has changed.
+   */
+  dispatch(type: GraffitiLocalObjectEventType, object: GraffitiObjectBase) {
+    this.target.dispatchEvent(new CustomEvent(type, { detail: object }));
+  }
+
+  /**
+   * Yields a {@link GraffitiLocalObjectEvent} for each change from
+   * when iteration begins that `session` is allowed to see, as
+   * determined by {@link isAllowed}. The stream never
+   * ends on its own; stop iterating to stop watching.
+   */
+  async *watch(
+    session?: GraffitiSession | null,
+    options?: GraffitiLocalObjectEventOptions,
+  ): AsyncGenerator<GraffitiLocalObjectEvent, void> {
+    const channels = options?.channels;
+    const queue: GraffitiLocalObjectEvent[] = [];
+    let wake: (() => void) | undefined;
+    // Check events one at a time so they are queued in order
+    let checked = Promise.resolve();
+    const listener = (event: Event) => {
+      const object = (event as CustomEvent<GraffitiObjectBase>).detail;
+      if (channels && !object.channels.some((c) => channels.includes(c))) {
+        return;
+      }
+      const masked = maskGraffitiObject(object, channels ?? [], session?.actor);
+      checked = checked.then(async () => {
+        try {
+          if (!(await this.isAllowed(object, session))) return;
+        } catch {
+          // Leave out objects whose groups can't be read
+          return;
+        }
+        queue.push({
+          type: event.type as GraffitiLocalObjectEventType,
+          url: object.url,
+          actor: object.actor,
+          channels: masked.channels,
+        });
+        wake?.();
+        wake = undefined;
+      });
+    };
+
+    const types: GraffitiLocalObjectEventType[] = [
+      "post",
+      "delete",
+      "postMedia",
+      "deleteMedia",
+    ];
+    for (const type of types) this.target.addEventListener(type, listener);
+    try {
+      while (true) {
+        const event = queue.shift();
+        if (event) {
+          yield event;
+        } else {
+          await new Promise<void>((resolve) => (wake = resolve));
+        }
+      }
+    } finally {
+      for (const type of types) this.target.removeEventListener(type, listener);
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { graffitiCRUDTests } from "@graffiti-garden/api/tests";
+import { describe, it, expect } from "vitest";
+import {
+  GraffitiLocal,
+  GraffitiLocalErrorNetwork,
+  GraffitiLocalFaults,
+  GraffitiLocalMemoryStorage,
+} from "./index";
+import type { GraffitiLocalFaultOptions } from "./faults";
+import { randomBase64 } from "./utilities";
+
+const useSession1 = () => ({ actor: "did:example:someone" });
+const useSession2 = () => ({ actor: "did:example:someoneelse" });
+const session = useSession1();
+
+const storage = new GraffitiLocalMemoryStorage();
+const useFaults = (options?: GraffitiLocalFaultOptions) =>
+  new GraffitiLocalFaults(new GraffitiLocal({ storage }), options);
+
+describe("Faults without any faults", () => {
+  graffitiCRUDTests(() => useFaults(), useSession1, useSession2);
+});
+
+describe("Faults", () => {
+  async function failures(seed: number) {
+    const graffiti = useFaults({ seed, failureRate: 0.5 });
+    const outcomes: string[] = [];
+    for (let i = 0; i < 20; i++) {
+      try {
+        await graffiti.post<{}>({ value: {}, channels: [] }, session);
+        outcomes.push("ok");
+      } catch (error) {
+        outcomes.push((error as Error).name);
+      }
+    }
+    return outcomes;
+  }
+
+  it("fails the same way for the same seed", async () => {
+    const outcomes = await failures(42);
+    expect(outcomes).toContain("ok");
+    expect(outcomes).toContain("GraffitiErrorForbidden");
+    expect(outcomes).toContain("GraffitiErrorTooLarge");
+    expect(await failures(42)).toEqual(outcomes);
+    expect(await failures(43)).not.toEqual(outcomes);
+  });
+
+  it("goes offline and back online", async () => {
+    const graffiti = useFaults({ offline: true });
+    expect(graffiti.seed).toBeTypeOf("number");
+    await expect(
+      graffiti.post<{}>({ value: {}, channels: [] }, session),
+    ).rejects.toBeInstanceOf(GraffitiLocalErrorNetwork);
+
+    graffiti.offline = false;
+    const channels = [randomBase64()];
+    for (let i = 0; i < 2; i++) {
+      await graffiti.post<{}>({ value: {}, channels }, session);
+    }
+    const stream = graffiti.discover<{}>(channels, {});
+    const first = await stream.next();
+    expect(first.done).toBe(false);
+
+    graffiti.offline = true;
+    await expect(stream.next()).rejects.toBeInstanceOf(
+      GraffitiLocalErrorNetwork,
+    );
+  });
+
+  it("cuts off discover streams midway", async () => {
+    const graffiti = useFaults({ seed: 1, streamFailureRate: 1 });
+    const channels = [randomBase64()];
+    for (let i = 0; i < 3; i++) {
+      await graffiti.post<{}>({ value: {}, channels }, session);
+    }
+    const yielded: unknown[] = [];
+    await expect(
+      (async () => {
+        for await (const result of graffiti.discover<{}>(channels, {})) {
+          yielded.push(result);
+        }
+      })(),
+    ).rejects.toBeInstanceOf(GraffitiLocalErrorNetwork);
+    expect(yielded).toHaveLength(1);
+  });
+
+  it("adds latency", async () => {
+    const graffiti = useFaults({ latency: { min: 40, max: 60 } });
+    const start = performance.now();
+    await graffiti.post<{}>({ value: {}, channels: [] }, session);
+    expect(performance.now() - start).toBeGreaterThanOrEqual(35);
+  });
+});
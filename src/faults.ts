@@ -0,0 +1,242 @@
+import {
+  GraffitiErrorCursorExpired,
+  GraffitiErrorForbidden,
+  GraffitiErrorNotFound,
+  GraffitiErrorTooLarge,
+  GraffitiRuntimeTypes,
+  type Graffiti,
+  type GraffitiObjectStream,
+  type GraffitiObjectStreamEntry,
+  type GraffitiObjectStreamError,
+  type GraffitiObjectStreamReturn,
+  type GraffitiObjectStreamTombstone,
+  type JSONSchema,
+} from "@graffiti-garden/api";
+import { seededRandom } from "./utilities.js";
+
+/**
+ * How {@link GraffitiLocalFaults} should misbehave.
+ */
+export interface GraffitiLocalFaultOptions {
+  /**
+   * Seeds the random choice of latencies and failures, so that
+   * a run that failed can be repeated exactly. Defaults to a
+   * random seed, which is available as {@link GraffitiLocalFaults.seed}.
+   */
+  seed?: number;
+  /**
+   * Milliseconds to wait before each operation and each
+   * entry of a discover stream, either exactly or chosen
+   * at random between `min` and `max`. Defaults to `0`.
+   */
+  latency?: number | { min: number; max: number };
+  /**
+   * The probability, from 0 to 1, that an operation fails
+   * without being performed, with an error that a server could
+   * plausibly return for it: `GraffitiErrorNotFound`,
+   * `GraffitiErrorForbidden`, `GraffitiErrorCursorExpired`
+   * or `GraffitiErrorTooLarge`. Defaults to `0`.
+   */
+  failureRate?: number;
+  /**
+   * The probability, from 0 to 1, that a discover stream fails
+   * with a {@link GraffitiLocalErrorNetwork} before each
+   * entry after the first. Defaults to `0`.
+   */
+  streamFailureRate?: number;
+  /**
+   * Whether to start {@link GraffitiLocalFaults.offline | offline}.
+   */
+  offline?: boolean;
+}
+
+/**
+ * Thrown by {@link GraffitiLocalFaults} when it is offline
+ * or a discover stream is cut off.
+ */
+export class GraffitiLocalErrorNetwork extends Error {
+  constructor(message?: string) {
+    super(message);
+    this.name = "GraffitiLocalErrorNetwork";
+    Object.setPrototypeOf(this, GraffitiLocalErrorNetwork.prototype);
+  }
+}
+
+type ErrorClass = new (message?: string) => Error;
+
+/**
+ * Wraps another implementation of the
+ * [Graffiti API](https://api.graffiti.garden/classes/Graffiti.html),
+ * usually a {@link GraffitiLocal}, to add latency and failures
+ * like those of a real server, so that apps can be tested
+ * against them. Logging in and out is passed through as is.
+ */
+export class GraffitiLocalFaults extends GraffitiRuntimeTypes {
+  protected faults: GraffitiLocalFaults_;
+
+  constructor(graffiti: Graffiti, options?: GraffitiLocalFaultOptions) {
+    const faults = new GraffitiLocalFaults_(graffiti, options);
+    super(faults);
+    this.faults = faults;
+  }
+
+  /**
+   * The seed of the random choices, to pass as
+   * {@link GraffitiLocalFaultOptions.seed} to repeat a run.
+   */
+  get seed() {
+    return this.faults.seed;
+  }
+
+  /**
+   * While `true`, every operation fails with a
+   * {@link GraffitiLocalErrorNetwork}, as do open discover streams.
+   */
+  get offline() {
+    return this.faults.offline;
+  }
+  set offline(offline: boolean) {
+    this.faults.offline = offline;
+  }
+}
+
+class GraffitiLocalFaults_ implements Graffiti {
+  readonly seed: number;
+  offline: boolean;
+  protected graffiti: Graffiti;
+  protected options: GraffitiLocalFaultOptions;
+  protected random: () => number;
+
+  login: Graffiti["login"];
+  logout: Graffiti["logout"];
+  sessionEvents: Graffiti["sessionEvents"];
+
+  constructor(graffiti: Graffiti, options?: GraffitiLocalFaultOptions) {
+    this.graffiti = graffiti;
+    this.options = options ?? {};
+    this.seed =
+      this.options.seed ?? crypto.getRandomValues(new Uint32Array(1))[0];
+    this.random = seededRandom(this.seed);
+    this.offline = !!this.options.offline;
+
+    this.login = (...args) => this.graffiti.login(...args);
+    this.logout = (...args) => this.graffiti.logout(...args);
+    this.sessionEvents = this.graffiti.sessionEvents;
+  }
+
+  protected async delay() {
+    const { latency } = this.options;
+    const ms =
+      typeof latency === "object"
+        ? latency.min + this.random() * (latency.max - latency.min)
+        : (latency ?? 0);
+    if (ms > 0) await new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  protected checkOnline() {
+    if (this.offline) throw new GraffitiLocalErrorNetwork("Offline");
+  }
+
+  /**
+   * Waits and then maybe fails, with one of `errors`,
+   * before an operation is performed.
+   */
+  protected async fault(errors: ErrorClass[]) {
+    await this.delay();
+    this.checkOnline();
+    const failureRate = this.options.failureRate ?? 0;
+    if (failureRate > 0 && this.random() < failureRate) {
+      const ErrorClass = errors[Math.floor(this.random() * errors.length)];
+      throw new ErrorClass("Simulated failure");
+    }
+  }
+
+  protected async *stream<Schema extends JSONSchema>(
+    errors: ErrorClass[],
+    open: () => GraffitiObjectStream<Schema>,
+  ): GraffitiObjectStream<Schema> {
+    await this.fault(errors);
+    const streamFailureRate = this.options.streamFailureRate ?? 0;
+    // Typed as an iterator so it can be returned without a value
+    const iterator: AsyncIterator<
+      | GraffitiObjectStreamEntry<Schema>
+      | GraffitiObjectStreamError
+      | GraffitiObjectStreamTombstone,
+      GraffitiObjectStreamReturn
+    > = open();
+    let done = false;
+    let first = true;
+    try {
+      while (true) {
+        const result = await iterator.next();
+        if (result.done) {
+          done = true;
+          return result.value;
+        }
+        await this.delay();
+        this.checkOnline();
+        if (
+          !first &&
+          streamFailureRate > 0 &&
+          this.random() < streamFailureRate
+        ) {
+          throw new GraffitiLocalErrorNetwork("The stream was cut off");
+        }
+        first = false;
+        yield result.value;
+      }
+    } finally {
+      if (!done) await iterator.return?.();
+    }
+  }
+
+  post: Graffiti["post"] = async (...args) => {
+    await this.fault([GraffitiErrorForbidden, GraffitiErrorTooLarge]);
+    return this.graffiti.post(...args);
+  };
+
+  get: Graffiti["get"] = async (...args) => {
+    await this.fault([GraffitiErrorNotFound, GraffitiErrorForbidden]);
+    return this.graffiti.get(...args);
+  };
+
+  delete: Graffiti["delete"] = async (...args) => {
+    await this.fault([GraffitiErrorNotFound, GraffitiErrorForbidden]);
+    return this.graffiti.delete(...args);
+  };
+
+  discover: Graffiti["discover"] = (...args) =>
+    this.stream<(typeof args)[1]>([GraffitiErrorForbidden], () =>
+      this.graffiti.discover(...args),
+    );
+
+  continueDiscover: Graffiti["continueDiscover"] = (...args) =>
+    this.stream([GraffitiErrorCursorExpired, GraffitiErrorForbidden], () =>
+      this.graffiti.continueDiscover(...args),
+    );
+
+  postMedia: Graffiti["postMedia"] = async (...args) => {
+    await this.fault([GraffitiErrorForbidden, GraffitiErrorTooLarge]);
+    return this.graffiti.postMedia(...args);
+  };
+
+  getMedia: Graffiti["getMedia"] = async (...args) => {
+    await this.fault([GraffitiErrorNotFound, GraffitiErrorTooLarge]);
+    return this.graffiti.getMedia(...args);
+  };
+
+  deleteMedia: Graffiti["deleteMedia"] = async (...args) => {
+    await this.fault([GraffitiErrorNotFound, GraffitiErrorForbidden]);
+    return this.graffiti.deleteMedia(...args);
+  };
+
+  handleToActor: Graffiti["handleToActor"] = async (...args) => {
+    await this.fault([GraffitiErrorNotFound]);
+    return this.graffiti.handleToActor(...args);
+  };
+
+  actorToHandle: Graffiti["actorToHandle"] = async (...args) => {
+    await this.fault([GraffitiErrorNotFound]);
+    return this.graffiti.actorToHandle(...args);
+  };
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { GraffitiLocal, GraffitiLocalMemorySessionStore } from "./index";
+import type { GraffitiLocalFixture } from "./fixtures";
+
+const fixture: GraffitiLocalFixture = {
+  actors: ["alice"],
+  objects: [
+    { actor: "alice", value: { text: "hello" }, channels: ["general"] },
+    {
+      actor: "bob",
+      value: { text: "hidden" },
+      channels: ["general"],
+      allowed: [],
+      deleted: true,
+    },
+  ],
+  media: [{ actor: "alice", data: "hello" }],
+};
+
+describe("fixtures", () => {
+  it("seeds objects with predictable URLs and timestamps", async () => {
+    const graffiti = await GraffitiLocal.fromFixture(fixture);
+    const alice = await graffiti.handleToActor("alice");
+    const url = "graffiti:did!local!YWxpY2U:00000000";
+
+    await expect(graffiti.get<{}>(url, {})).resolves.toEqual({
+      url,
+      actor: alice,
+      value: { text: "hello" },
+      channels: [],
+    });
+
+    const snapshot = await graffiti.snapshot();
+    expect(
+      snapshot.objects.map(({ url, tombstone }) => [url, tombstone]),
+    ).toEqual([
+      [url, false],
+      ["graffiti:did!local!YWxpY2U:00000002", false],
+      ["graffiti:did!local!Ym9i:00000001", true],
+    ]);
+    expect(snapshot.media).toEqual([
+      {
+        data: "data:text/plain;base64,aGVsbG8=",
+        hash: "LPJNul-wow4m6DsqxbninhsWHlwfp0JecwQzYpOLmCQ",
+      },
+    ]);
+  });
+
+  it("produces the same snapshot from the same fixture", async () => {
+    const first = await GraffitiLocal.fromFixture(fixture);
+    const second = await GraffitiLocal.fromFixture(fixture);
+    expect(JSON.stringify(await second.snapshot())).toBe(
+      JSON.stringify(await first.snapshot()),
+    );
+
+    await second.post<{}>(
+      { value: {}, channels: [] },
+      { actor: "did:example:someone" },
+    );
+    expect(await second.snapshot()).not.toEqual(await first.snapshot());
+  });
+
+  it("seeds did:key actors with the same keys every time", async () => {
+    const first = await GraffitiLocal.fromFixture(fixture, {
+      identity: "did:key",
+    });
+    const second = await GraffitiLocal.fromFixture(fixture, {
+      identity: "did:key",
+    });
+    const alice = await first.handleToActor("alice");
+    expect(alice).toMatch(/^did:key:z/);
+    expect(await second.handleToActor("alice")).toBe(alice);
+
+    const snapshot = await first.snapshot();
+    expect(snapshot.objects).toHaveLength(3);
+    expect(snapshot.objects.every(({ signature }) => signature)).toBe(true);
+    expect(JSON.stringify(await second.snapshot())).toBe(
+      JSON.stringify(snapshot),
+    );
+  });
+
+  it("logs in the fixture's actors", async () => {
+    const sessionStore = new GraffitiLocalMemorySessionStore();
+    await GraffitiLocal.fromFixture(fixture, { sessionStore });
+    expect(await sessionStore.getItem("graffiti-handles")).toBe("alice");
+  });
+});
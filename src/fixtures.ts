@@ -0,0 +1,227 @@
+import type { Graffiti, GraffitiLoginEvent } from "@graffiti-garden/api";
+import type {
+  GraffitiLocalArchive,
+  GraffitiLocalArchiveRecord,
+} from "./archive.js";
+import type { GraffitiLocalKeySeed, GraffitiLocalKeys } from "./keys.js";
+import type { GraffitiLocalStoredObject } from "./storage.js";
+import { canonicalJSON } from "./utilities.js";
+
+/**
+ * Where {@link createSteppingClock} starts by default:
+ * midnight UTC on January 1st, 2024.
+ */
+export const FIXTURE_START_TIME = Date.UTC(2024, 0, 1);
+
+/**
+ * An object to post in a {@link GraffitiLocalFixture}.
+ */
+export interface GraffitiLocalFixtureObject {
+  /**
+   * The handle of the actor that posts the object.
+   */
+  actor: string;
+  value: {};
+  channels: string[];
+  allowed?: string[] | null;
+  /**
+   * Whether to delete the object after everything has been
+   * posted, leaving a tombstone in its place.
+   */
+  deleted?: boolean;
+}
+
+/**
+ * Media to post in a {@link GraffitiLocalFixture}.
+ */
+export interface GraffitiLocalFixtureMedia {
+  /**
+   * The handle of the actor that posts the media.
+   */
+  actor: string;
+  /**
+   * The data, either as a blob or as text.
+   */
+  data: Blob | string;
+  /**
+   * The media type of text data. Defaults to `text/plain`.
+   */
+  type?: string;
+  allowed?: string[] | null;
+}
+
+/**
+ * A declarative description of the state of a {@link GraffitiLocal},
+ * for {@link GraffitiLocal.fromFixture}.
+ */
+export interface GraffitiLocalFixture {
+  /**
+   * Handles of actors to log in.
+   */
+  actors?: string[];
+  /**
+   * Objects to post, in order.
+   */
+  objects?: GraffitiLocalFixtureObject[];
+  /**
+   * Media to post, in order, after the objects.
+   */
+  media?: GraffitiLocalFixtureMedia[];
+}
+
+/**
+ * Everything stored in a {@link GraffitiLocal}, sorted and with
+ * keys in a canonical order, so that two snapshots of the same
+ * state are equal and serialize to the same JSON.
+ */
+export interface GraffitiLocalSnapshot {
+  /**
+   * Objects and tombstones, sorted by URL, without their revisions.
+   */
+  objects: Omit<GraffitiLocalStoredObject, "rev">[];
+  /**
+   * Media data as base64, sorted by hash.
+   */
+  media: { hash: string; data: string }[];
+}
+
+/**
+ * Returns a clock for {@link GraffitiLocalOptions.now} that starts
+ * at `start` and advances by `step` milliseconds every time it is read.
+ */
+export function createSteppingClock(
+  start = FIXTURE_START_TIME,
+  step = 1,
+): () => number {
+  let time = start - step;
+  return () => (time += step);
+}
+
+/**
+ * Returns a generator for {@link GraffitiLocalOptions.generateId}
+ * that counts up from zero, zero-padded so that IDs sort in order.
+ */
+export function createSequentialIds(prefix = ""): () => string {
+  let count = 0;
+  return () => prefix + (count++).toString().padStart(8, "0");
+}
+
+/**
+ * Returns a {@link GraffitiLocalOptions.keySeed} that derives
+ * each handle's key pair from a hash of `secret` and the handle,
+ * so that a fixture's `did:key` actors are the same every time.
+ */
+export function createKeySeeds(secret = "fixture"): GraffitiLocalKeySeed {
+  return async (handle) =>
+    new Uint8Array(
+      await crypto.subtle.digest(
+        "SHA-256",
+        new TextEncoder().encode(`${secret}:${handle}`),
+      ),
+    );
+}
+
+/**
+ * Logs in the actors of a fixture and posts its objects and media.
+ * With `did:key` identities, pass the {@link GraffitiLocalKeys} as
+ * `keys` so that every handle in the fixture gets a key pair.
+ * @returns The URLs of the fixture's objects and media, in order.
+ */
+export async function seedFixture(
+  graffiti: Pick<
+    Graffiti,
+    | "login"
+    | "sessionEvents"
+    | "handleToActor"
+    | "post"
+    | "delete"
+    | "postMedia"
+  >,
+  fixture: GraffitiLocalFixture,
+  keys?: Pick<GraffitiLocalKeys, "create">,
+): Promise<{ objects: string[]; media: string[] }> {
+  const actors = new Map<string, string>();
+  const handleToActor = async (handle: string) => {
+    let actor = actors.get(handle);
+    if (!actor) {
+      actor = keys
+        ? await keys.create(handle)
+        : await graffiti.handleToActor(handle);
+      actors.set(handle, actor);
+    }
+    return actor;
+  };
+
+  for (const handle of fixture.actors ?? []) {
+    let login: GraffitiLoginEvent["detail"] | undefined;
+    const onLogin = (event: Event) => {
+      login = (event as GraffitiLoginEvent).detail;
+    };
+    graffiti.sessionEvents.addEventListener("login", onLogin);
+    try {
+      await graffiti.login(await handleToActor(handle));
+    } finally {
+      graffiti.sessionEvents.removeEventListener("login", onLogin);
+    }
+    if (!login) throw new Error(`${handle} was not logged in`);
+    if (login.error) throw login.error;
+    actors.set(handle, login.session.actor);
+  }
+
+  const objects: string[] = [];
+  const deleted: { url: string; actor: string }[] = [];
+  for (const {
+    actor: handle,
+    deleted: isDeleted,
+    ...object
+  } of fixture.objects ?? []) {
+    const actor = await handleToActor(handle);
+    const posted = await graffiti.post<{}>(object, { actor });
+    objects.push(posted.url);
+    if (isDeleted) deleted.push({ url: posted.url, actor });
+  }
+  for (const { url, actor } of deleted) {
+    await graffiti.delete(url, { actor });
+  }
+
+  const media: string[] = [];
+  for (const { actor: handle, data, type, allowed } of fixture.media ?? []) {
+    const actor = await handleToActor(handle);
+    const blob =
+      typeof data === "string"
+        ? new Blob([data], { type: type ?? "text/plain" })
+        : data;
+    media.push(await graffiti.postMedia({ data: blob, allowed }, { actor }));
+  }
+
+  return { objects, media };
+}
+
+/**
+ * Reads a complete {@link GraffitiLocalArchive.export | export}
+ * into a {@link GraffitiLocalSnapshot}.
+ */
+export async function createSnapshot(
+  archive: Pick<GraffitiLocalArchive, "export">,
+): Promise<GraffitiLocalSnapshot> {
+  const snapshot: GraffitiLocalSnapshot = { objects: [], media: [] };
+  for await (const line of archive.export()) {
+    const record: GraffitiLocalArchiveRecord = JSON.parse(
+      canonicalJSON(JSON.parse(line)),
+    );
+    if (record.type === "object") {
+      const { type, ...object } = record;
+      snapshot.objects.push(object);
+    } else if (record.type === "media") {
+      const { type, ...media } = record;
+      snapshot.media.push(media);
+    }
+  }
+  const byKey =
+    <T>(key: (item: T) => string) =>
+    (a: T, b: T) =>
+      key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0;
+  snapshot.objects.sort(byKey(({ url }) => url));
+  snapshot.media.sort(byKey(({ hash }) => hash));
+  return snapshot;
+}
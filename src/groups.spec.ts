@@ -0,0 +1,190 @@
+import { describe, it, expect, assert } from "vitest";
+import { GraffitiErrorNotFound } from "@graffiti-garden/api";
+import { GraffitiLocal, GraffitiLocalMemoryStorage } from "./index";
+import { randomBase64 } from "./utilities";
+import { collect } from "./test-utilities";
+
+const owner = { actor: "did:example:owner" };
+const member = { actor: "did:example:member" };
+const other = { actor: "did:example:other" };
+
+describe("groups", () => {
+  it("expands members when checking access", async () => {
+    const graffiti = new GraffitiLocal({
+      storage: new GraffitiLocalMemoryStorage(),
+    });
+    const group = await graffiti.groups.create([member.actor], owner);
+    expect(await graffiti.groups.members(group, owner)).toEqual([member.actor]);
+    await expect(graffiti.groups.members(group, member)).rejects.toThrow(
+      GraffitiErrorNotFound,
+    );
+
+    const channels = [randomBase64()];
+    const posted = await graffiti.post<{}>(
+      { value: { text: "for the team" }, channels, allowed: [group] },
+      owner,
+    );
+    const media = await graffiti.postMedia(
+      { data: new Blob(["team notes"]), allowed: [group] },
+      owner,
+    );
+
+    await expect(graffiti.get(posted, {}, member)).resolves.toEqual({
+      ...posted,
+      channels: [],
+      allowed: [member.actor],
+    });
+    expect((await graffiti.getMedia(media, {}, member)).data.size).toBe(10);
+    const { values } = await collect(graffiti.discover(channels, {}, member));
+    expect(values).toEqual([
+      { object: { ...posted, allowed: [member.actor] } },
+    ]);
+    await expect(graffiti.get(posted, {}, other)).rejects.toThrow(
+      GraffitiErrorNotFound,
+    );
+
+    await graffiti.groups.remove(group, [member.actor], owner);
+    await expect(graffiti.get(posted, {}, member)).rejects.toThrow(
+      GraffitiErrorNotFound,
+    );
+    await expect(graffiti.getMedia(media, {}, member)).rejects.toThrow(
+      GraffitiErrorNotFound,
+    );
+
+    await graffiti.groups.add(group, [other.actor], owner);
+    await expect(graffiti.get(posted, {}, other)).resolves.toBeDefined();
+  });
+
+  it("only expands groups owned by the object's actor", async () => {
+    const graffiti = new GraffitiLocal({
+      storage: new GraffitiLocalMemoryStorage(),
+    });
+    const group = await graffiti.groups.create([member.actor], other);
+    const posted = await graffiti.post<{}>(
+      { value: {}, channels: [], allowed: [group] },
+      owner,
+    );
+    await expect(graffiti.get(posted, {}, member)).rejects.toThrow(
+      GraffitiErrorNotFound,
+    );
+    await expect(
+      graffiti.groups.add(group, [member.actor], owner),
+    ).rejects.toThrow();
+  });
+
+  it("updates continued discovers when membership changes", async () => {
+    const graffiti = new GraffitiLocal({
+      storage: new GraffitiLocalMemoryStorage(),
+      continueBuffer: 0,
+    });
+    const channels = [randomBase64()];
+    const group = await graffiti.groups.create([member.actor], owner);
+    const posted = await graffiti.post<{}>(
+      { value: {}, channels, allowed: [group] },
+      owner,
+    );
+
+    const before = {
+      member: await collect(graffiti.discover(channels, {}, member)),
+      other: await collect(graffiti.discover(channels, {}, other)),
+    };
+    expect(before.member.values).toHaveLength(1);
+    expect(before.other.values).toEqual([]);
+
+    await graffiti.groups.remove(group, [member.actor], owner);
+    await graffiti.groups.add(group, [other.actor], owner);
+
+    const removed = await collect(
+      graffiti.continueDiscover(before.member.cursor, member),
+    );
+    expect(removed.values).toEqual([
+      { tombstone: true, object: { url: posted.url } },
+    ]);
+    const added = await collect(
+      graffiti.continueDiscover(before.other.cursor, other),
+    );
+    expect(added.values).toEqual([
+      { object: { ...posted, allowed: [other.actor] } },
+    ]);
+
+    // Deleting the group removes everyone
+    await graffiti.delete(group, owner);
+    const deleted = await collect(
+      graffiti.continueDiscover(added.cursor, other),
+    );
+    expect(deleted.values).toEqual([
+      { tombstone: true, object: { url: posted.url } },
+    ]);
+  });
+
+  it("only reads objects shared with a changed group", async () => {
+    const storage = new GraffitiLocalMemoryStorage();
+    const graffiti = new GraffitiLocal({ storage, continueBuffer: 0 });
+    const channels = [randomBase64()];
+    const group = await graffiti.groups.create([], owner);
+    await graffiti.post<{}>({ value: {}, channels }, owner);
+    const { cursor } = await collect(graffiti.discover(channels, {}, member));
+
+    const queries: unknown[] = [];
+    const queryChannel = storage.queryChannel.bind(storage);
+    storage.queryChannel = (channel, query) => {
+      queries.push(query?.filter);
+      return queryChannel(channel, query);
+    };
+    await graffiti.groups.add(group, [member.actor], owner);
+    await collect(graffiti.continueDiscover(cursor, member));
+    expect(queries).toEqual([{ path: "allowed", values: [group] }]);
+  });
+
+  it("updates live discovers when membership changes", async () => {
+    const graffiti = new GraffitiLocal({
+      storage: new GraffitiLocalMemoryStorage(),
+    });
+    const channels = [randomBase64()];
+    const group = await graffiti.groups.create([], owner);
+    const posted = await graffiti.post<{}>(
+      { value: {}, channels, allowed: [group] },
+      owner,
+    );
+    const stream = graffiti.discoverLive<{}>(channels, {}, member);
+
+    await graffiti.groups.add(group, [member.actor], owner);
+    const added = await stream.next();
+    assert(!added.done && !added.value.tombstone);
+    expect(added.value.object.url).toBe(posted.url);
+
+    // Adding someone else doesn't repeat the object
+    await graffiti.groups.add(group, [other.actor], owner);
+    await graffiti.groups.remove(group, [member.actor], owner);
+    await expect(stream.next()).resolves.toEqual({
+      done: false,
+      value: { tombstone: true, object: { url: posted.url } },
+    });
+    await stream.return();
+  });
+
+  it("lets members watch events for objects shared with the group", async () => {
+    const graffiti = new GraffitiLocal({
+      storage: new GraffitiLocalMemoryStorage(),
+    });
+    const group = await graffiti.groups.create([member.actor], owner);
+    const events = graffiti.objectEvents(member);
+    const first = events.next();
+
+    await graffiti.post<{}>({ value: {}, channels: [], allowed: [] }, owner);
+    const posted = await graffiti.post<{}>(
+      { value: {}, channels: [], allowed: [group] },
+      owner,
+    );
+    await expect(first).resolves.toEqual({
+      done: false,
+      value: {
+        type: "post",
+        url: posted.url,
+        actor: owner.actor,
+        channels: [],
+      },
+    });
+    await events.return();
+  });
+});
@@ -0,0 +1,162 @@
+import {
+  GraffitiErrorNotFound,
+  type GraffitiSession,
+} from "@graffiti-garden/api";
+import type { GraffitiLocalObjects } from "./objects.js";
+import { decodeObjectUrl } from "./utilities.js";
+
+/**
+ * The value of a group object.
+ */
+export type GraffitiLocalGroupValue = {
+  group: {
+    /**
+     * The actors in the group.
+     */
+    members: string[];
+    /**
+     * When each former member was removed, as a `lastModified`
+     * timestamp, so that continued discovers can send them tombstones
+     * for the objects shared with the group that they could see.
+     */
+    removed: { [actor: string]: string | number };
+  };
+};
+
+/**
+ * Returns the contents of a group object's value,
+ * or `undefined` if it is not a group.
+ */
+export function groupValue(value: {}):
+  GraffitiLocalGroupValue["group"] | undefined {
+  const { group } = value as { group?: unknown };
+  if (!group || typeof group !== "object") return;
+  const { members, removed } = group as {
+    members?: unknown;
+    removed?: unknown;
+  };
+  if (
+    !Array.isArray(members) ||
+    !members.every((m) => typeof m === "string") ||
+    !removed ||
+    typeof removed !== "object"
+  ) {
+    return;
+  }
+  return { members, removed: removed as { [actor: string]: string | number } };
+}
+
+/**
+ * Returns the entries of an object's allowed list that could be
+ * groups: URLs of objects created by the object's own actor.
+ * Groups created by anyone else are never expanded, so that
+ * only an object's actor decides who can see it.
+ */
+export function groupUrls(object: {
+  url: string;
+  allowed?: string[] | null;
+}): string[] {
+  if (!object.allowed) return [];
+  const { actor } = decodeObjectUrl(object.url);
+  return object.allowed.filter((entry) => {
+    try {
+      return decodeObjectUrl(entry).actor === actor;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Manages named groups of actors. A group is an object that only
+ * its owner can see, and its URL can be put in the `allowed` list
+ * of the owner's objects and media to share them with every member.
+ * Members are looked up whenever access is checked, so changes
+ * apply to objects that were already posted, and continued
+ * discovers yield objects to new members and tombstones
+ * to removed ones. Delete a group like any other object.
+ */
+export class GraffitiLocalGroups {
+  protected objects: Pick<
+    GraffitiLocalObjects,
+    "postObject" | "get" | "update"
+  >;
+
+  constructor(
+    objects: Pick<GraffitiLocalObjects, "postObject" | "get" | "update">,
+  ) {
+    this.objects = objects;
+  }
+
+  /**
+   * Creates a group owned by the session's actor.
+   * @returns The group's URL, to put in `allowed` lists.
+   */
+  create = async (
+    members: string[],
+    session: GraffitiSession,
+  ): Promise<string> => {
+    const value: GraffitiLocalGroupValue = {
+      group: { members: Array.from(new Set(members)), removed: {} },
+    };
+    const { url } = await this.objects.postObject<{}>(
+      { value, channels: [], allowed: [] },
+      session,
+    );
+    return url;
+  };
+
+  /**
+   * Returns the members of a group the session owns.
+   *
+   * @throws {@link GraffitiErrorNotFound} if it is not a group
+   * owned by the session's actor.
+   */
+  members = async (
+    url: string,
+    session: GraffitiSession,
+  ): Promise<string[]> => {
+    const object = await this.objects.get<{}>(url, {}, session);
+    const group = object.actor === session.actor && groupValue(object.value);
+    if (!group) throw new GraffitiErrorNotFound("Group not found.");
+    return group.members;
+  };
+
+  /**
+   * Adds actors to a group the session owns.
+   */
+  add = (url: string, actors: string[], session: GraffitiSession) =>
+    this.change(url, session, (group) => {
+      for (const actor of actors) delete group.removed[actor];
+      group.members = Array.from(new Set([...group.members, ...actors]));
+    });
+
+  /**
+   * Removes actors from a group the session owns. They lose access
+   * to everything shared with the group, unless it is also shared
+   * with them directly or through another group.
+   */
+  remove = (url: string, actors: string[], session: GraffitiSession) =>
+    this.change(url, session, (group, lastModified) => {
+      for (const actor of actors) {
+        if (group.members.includes(actor)) group.removed[actor] = lastModified;
+      }
+      group.members = group.members.filter((m) => !actors.includes(m));
+    });
+
+  protected async change(
+    url: string,
+    session: GraffitiSession,
+    change: (
+      group: GraffitiLocalGroupValue["group"],
+      lastModified: string | number,
+    ) => void,
+  ): Promise<void> {
+    await this.objects.update(url, session, (value, lastModified) => {
+      const group = groupValue(value);
+      if (!group) throw new GraffitiErrorNotFound("Group not found.");
+      change(group, lastModified);
+      return { group } satisfies GraffitiLocalGroupValue;
+    });
+  }
+}
@@ -0,0 +1,174 @@
+import {
+  GraffitiErrorCursorExpired,
+  GraffitiErrorForbidden,
+  GraffitiErrorInvalidSchema,
+  GraffitiErrorNotAcceptable,
+  GraffitiErrorNotFound,
+  GraffitiErrorSchemaMismatch,
+  GraffitiErrorTooLarge,
+  type GraffitiObjectStreamEntry,
+  type GraffitiObjectStreamError,
+  type GraffitiObjectStreamTombstone,
+  type JSONSchema,
+} from "@graffiti-garden/api";
+import { GraffitiLocalErrorRateLimited } from "./quotas.js";
+import { GraffitiLocalErrorDecryption } from "./encryption.js";
+
+/**
+ * The request header carrying the actor of the session
+ * that a request to a {@link GraffitiLocalServer} is made with.
+ * Like the other headers, its value is URI encoded
+ * since actors need not be ASCII.
+ */
+export const SESSION_HEADER = "Graffiti-Session-Actor";
+/**
+ * The response headers carrying the actor and allowed list
+ * of media, whose body is the media data itself.
+ */
+export const MEDIA_ACTOR_HEADER = "Graffiti-Media-Actor";
+export const MEDIA_ALLOWED_HEADER = "Graffiti-Media-Allowed";
+
+export const NDJSON = "application/x-ndjson";
+export const EVENT_STREAM = "text/event-stream";
+
+/**
+ * An error as it is sent over HTTP.
+ */
+export interface GraffitiLocalHttpError {
+  name: string;
+  message: string;
+  retryAfter?: number;
+}
+
+/**
+ * An entry of a discover stream as it is sent over HTTP.
+ */
+export type GraffitiLocalHttpEntry =
+  | GraffitiObjectStreamEntry<{}>
+  | GraffitiObjectStreamTombstone
+  | { error: GraffitiLocalHttpError; origin: string };
+
+/**
+ * One line of an NDJSON discover stream, or with the key
+ * as the event name, one event of a server-sent event stream.
+ * A stream ends with either its cursor or an error.
+ */
+export type GraffitiLocalHttpMessage =
+  | { entry: GraffitiLocalHttpEntry }
+  | { cursor: string }
+  | { error: GraffitiLocalHttpError };
+
+const ERRORS: Record<
+  string,
+  { status: number; create: (error: GraffitiLocalHttpError) => Error }
+> = {
+  SyntaxError: {
+    status: 400,
+    create: ({ message }) => new SyntaxError(message),
+  },
+  GraffitiErrorInvalidSchema: {
+    status: 400,
+    create: ({ message }) => new GraffitiErrorInvalidSchema(message),
+  },
+  GraffitiErrorForbidden: {
+    status: 403,
+    create: ({ message }) => new GraffitiErrorForbidden(message),
+  },
+  GraffitiErrorNotFound: {
+    status: 404,
+    create: ({ message }) => new GraffitiErrorNotFound(message),
+  },
+  GraffitiErrorNotAcceptable: {
+    status: 406,
+    create: ({ message }) => new GraffitiErrorNotAcceptable(message),
+  },
+  GraffitiErrorCursorExpired: {
+    status: 410,
+    create: ({ message }) => new GraffitiErrorCursorExpired(message),
+  },
+  GraffitiErrorTooLarge: {
+    status: 413,
+    create: ({ message }) => new GraffitiErrorTooLarge(message),
+  },
+  GraffitiErrorSchemaMismatch: {
+    status: 422,
+    create: ({ message }) => new GraffitiErrorSchemaMismatch(message),
+  },
+  GraffitiLocalErrorRateLimited: {
+    status: 429,
+    create: ({ message, retryAfter }) =>
+      new GraffitiLocalErrorRateLimited(message, retryAfter ?? 0),
+  },
+  GraffitiLocalErrorDecryption: {
+    status: 500,
+    create: ({ message }) => new GraffitiLocalErrorDecryption(message),
+  },
+};
+
+/**
+ * The HTTP status for an error, 500 if it is unexpected.
+ */
+export function errorStatus(error: unknown): number {
+  return (error instanceof Error && ERRORS[error.name]?.status) || 500;
+}
+
+/**
+ * Whether an error is one of the Graffiti errors that
+ * clients expect, rather than an internal failure.
+ */
+export function isKnownError(error: unknown): error is Error {
+  return error instanceof Error && error.name in ERRORS;
+}
+
+/**
+ * Serializes an error to send to a client. Unexpected errors
+ * are replaced with a generic one, so that internal details
+ * are not exposed.
+ */
+export function serializeError(error: unknown): GraffitiLocalHttpError {
+  if (!isKnownError(error)) {
+    return { name: "Error", message: "Internal server error" };
+  }
+  const { name, message } = error;
+  return error instanceof GraffitiLocalErrorRateLimited
+    ? { name, message, retryAfter: error.retryAfter }
+    : { name, message };
+}
+
+/**
+ * Recreates a serialized error as an instance of its original
+ * class, if it is one of the Graffiti errors.
+ */
+export function deserializeError(error: GraffitiLocalHttpError): Error {
+  const known = ERRORS[error.name];
+  if (known) return known.create(error);
+  const unknown = new Error(error.message);
+  unknown.name = error.name;
+  return unknown;
+}
+
+export function serializeEntry(
+  entry:
+    | GraffitiObjectStreamEntry<{}>
+    | GraffitiObjectStreamTombstone
+    | GraffitiObjectStreamError,
+): GraffitiLocalHttpEntry {
+  return entry.error
+    ? { error: serializeError(entry.error), origin: entry.origin }
+    : entry;
+}
+
+/**
+ * Recreates an entry of a discover stream. Its object
+ * has already been checked against the schema by the server.
+ */
+export function deserializeEntry<Schema extends JSONSchema>(
+  entry: GraffitiLocalHttpEntry,
+):
+  | GraffitiObjectStreamEntry<Schema>
+  | GraffitiObjectStreamTombstone
+  | GraffitiObjectStreamError {
+  return entry.error
+    ? { error: deserializeError(entry.error), origin: entry.origin }
+    : (entry as GraffitiObjectStreamEntry<Schema>);
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import type {
+  GraffitiLoginEvent,
+  GraffitiSessionInitializedEvent,
+} from "@graffiti-garden/api";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  GraffitiLocal,
+  GraffitiLocalFileSessionStore,
+  GraffitiLocalMemoryStorage,
+} from "./index";
+
+function nextLogin(graffiti: GraffitiLocal) {
+  return new Promise<GraffitiLoginEvent["detail"]>((resolve) =>
+    graffiti.sessionEvents.addEventListener(
+      "login",
+      (event) => resolve((event as GraffitiLoginEvent).detail),
+      { once: true },
+    ),
+  );
+}
+
+describe("headless login", () => {
+  it("logs in with a prompt and restores the session from a file", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "graffiti-"));
+    const path = join(directory, "session.json");
+    try {
+      const graffiti = new GraffitiLocal({
+        storage: new GraffitiLocalMemoryStorage(),
+        identity: "did:key",
+        sessionStore: new GraffitiLocalFileSessionStore(path),
+        loginPrompt: async () => "alice",
+      });
+      const login = nextLogin(graffiti);
+      await graffiti.login();
+      const detail = await login;
+      expect(detail.error).toBeUndefined();
+      const actor = detail.session?.actor;
+      expect(actor).toMatch(/^did:key:/);
+
+      // A new process restores the session and its key pair
+      const restored = new GraffitiLocal({
+        storage: new GraffitiLocalMemoryStorage(),
+        identity: "did:key",
+        sessionStore: new GraffitiLocalFileSessionStore(path),
+      });
+      const restoredLogin = nextLogin(restored);
+      const initialized = new Promise<GraffitiSessionInitializedEvent>(
+        (resolve) =>
+          restored.sessionEvents.addEventListener("initialized", (event) =>
+            resolve(event as GraffitiSessionInitializedEvent),
+          ),
+      );
+      expect((await restoredLogin).session?.actor).toBe(actor);
+      await initialized;
+      await expect(
+        restored.post<{}>({ value: {}, channels: [] }, { actor: actor! }),
+      ).resolves.toMatchObject({ actor });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("reports a cancelled prompt as a login error", async () => {
+    const graffiti = new GraffitiLocal({
+      storage: new GraffitiLocalMemoryStorage(),
+      loginPrompt: () => null,
+    });
+    const login = nextLogin(graffiti);
+    await graffiti.login();
+    expect((await login).error).toBeInstanceOf(Error);
+  });
+});
@@ -5,30 +5,99 @@ import type {
   GraffitiSessionInitializedEvent,
 } from "@graffiti-garden/api";
 import { decodeBase64, encodeBase64 } from "./utilities";
+import { isDidKey, type GraffitiLocalKeys } from "./keys";
+import type {
+  GraffitiLocalBroadcast,
+  GraffitiLocalBroadcastEvent,
+} from "./broadcast";
+import {
+  defaultSessionStore,
+  type GraffitiLocalSessionStore,
+} from "./session-store";
 
 const DID_LOCAL_PREFIX = "did:local:";
 
+/**
+ * Asks the user to approve a login by choosing a handle.
+ * Resolves to the chosen handle, or `null` or `undefined`
+ * if the login was cancelled.
+ *
+ * @param proposedHandle The handle of the actor passed
+ * to `login`, if any.
+ */
+export type GraffitiLocalLoginPrompt = (
+  proposedHandle?: string,
+) => Promise<string | null | undefined> | string | null | undefined;
+
+export interface GraffitiLocalIdentityOptions {
+  /**
+   * If provided, each handle gets a `did:key` actor
+   * backed by a key pair created on first login.
+   */
+  keys?: GraffitiLocalKeys;
+  /**
+   * Where logged in handles are kept. Defaults to
+   * `localStorage` in the browser and memory elsewhere.
+   */
+  sessionStore?: GraffitiLocalSessionStore;
+  /**
+   * Asks the user to choose a handle on login. Defaults to
+   * `window.prompt` in the browser and elsewhere to
+   * accepting the handle of the actor passed to `login`.
+   */
+  loginPrompt?: GraffitiLocalLoginPrompt;
+  /**
+   * Whether to reload the page after logging in, to simulate
+   * an oauth redirect. Otherwise the login event is dispatched
+   * directly. Defaults to `true` in the browser and `false` elsewhere.
+   */
+  reloadOnLogin?: boolean;
+  /**
+   * If provided, logins and logouts are shared with other
+   * instances, such as in other browser tabs, and theirs
+   * are dispatched on {@link GraffitiLocalIdentity.sessionEvents}.
+   */
+  broadcast?: GraffitiLocalBroadcast;
+}
+
 /**
  * A class that implements the login methods
- * of the [Graffiti API]() for use in the browser.
+ * of the [Graffiti API]() for use in the browser or node.js.
  * It is completely insecure and should only be used
  * for testing and demonstrations.
  *
- * It uses `localStorage` to store login state and
+ * By default it uses `localStorage` to store login state and
  * window prompts rather than an oauth flow for log in.
- * It can be used in node.js but will not persist
- * login state and a proposed username must be provided.
+ * In node.js, provide a {@link GraffitiLocalFileSessionStore}
+ * to persist login state and a {@link GraffitiLocalLoginPrompt}
+ * to ask for a handle; otherwise a proposed actor must be
+ * passed to `login`.
  */
 export class GraffitiLocalIdentity {
   sessionEvents: Graffiti["sessionEvents"] = new EventTarget();
+  protected keys: GraffitiLocalKeys | undefined;
+  protected sessionStore: GraffitiLocalSessionStore;
+  protected loginPrompt: GraffitiLocalLoginPrompt;
+  protected reloadOnLogin: boolean;
+  protected broadcast: GraffitiLocalBroadcast | undefined;
 
   handleToActor: Graffiti["handleToActor"] = async (handle: string) => {
+    if (this.keys) {
+      const actor = await this.keys.handleToActor(handle);
+      if (!actor) throw new Error(`No key pair for handle ${handle}`);
+      return actor;
+    }
     const bytes = new TextEncoder().encode(handle);
     const base64 = encodeBase64(bytes);
     return `${DID_LOCAL_PREFIX}${base64}`;
   };
 
   actorToHandle: Graffiti["actorToHandle"] = async (actor: string) => {
+    if (this.keys && isDidKey(actor)) {
+      const handle = await this.keys.actorToHandle(actor);
+      if (handle === undefined) throw new Error(`No key pair for ${actor}`);
+      return handle;
+    }
     if (!actor.startsWith(DID_LOCAL_PREFIX)) {
       throw new Error(`actor must start with ${DID_LOCAL_PREFIX}`);
     }
@@ -37,17 +106,50 @@ export class GraffitiLocalIdentity {
     return new TextDecoder().decode(bytes);
   };
 
-  constructor() {
+  constructor(options?: GraffitiLocalIdentityOptions) {
+    const inBrowser = typeof window !== "undefined";
+    this.keys = options?.keys;
+    this.sessionStore = options?.sessionStore ?? defaultSessionStore();
+    this.loginPrompt =
+      options?.loginPrompt ??
+      (inBrowser
+        ? (handle) => window.prompt("Choose a username to log in.", handle)
+        : (handle) => handle);
+    this.reloadOnLogin = options?.reloadOnLogin ?? inBrowser;
+
+    // Follow logins and logouts in other tabs
+    this.broadcast = options?.broadcast;
+    this.broadcast?.events.addEventListener("login", (event) => {
+      const { actor } = (event as GraffitiLocalBroadcastEvent<"login">).detail;
+      const login: GraffitiLoginEvent = new CustomEvent("login", {
+        detail: { session: { actor } },
+      });
+      this.sessionEvents.dispatchEvent(login);
+    });
+    this.broadcast?.events.addEventListener("logout", (event) => {
+      const { actor } = (event as GraffitiLocalBroadcastEvent<"logout">).detail;
+      const logout: GraffitiLogoutEvent = new CustomEvent("logout", {
+        detail: { actor },
+      });
+      this.sessionEvents.dispatchEvent(logout);
+    });
+
     // Look for any existing sessions
     const sessionRestorer = async () => {
       // Allow listeners to be added first
       await Promise.resolve();
 
       // Restore previous sessions
-      for (const handle of this.getLoggedInHandles()) {
-        const event: GraffitiLoginEvent = new CustomEvent("login", {
-          detail: { session: { actor: await this.handleToActor(handle) } },
-        });
+      for (const handle of await this.getLoggedInHandles()) {
+        let detail: GraffitiLoginEvent["detail"];
+        try {
+          detail = { session: { actor: await this.handleToActor(handle) } };
+        } catch (error) {
+          detail = {
+            error: error instanceof Error ? error : new Error(String(error)),
+          };
+        }
+        const event: GraffitiLoginEvent = new CustomEvent("login", { detail });
         this.sessionEvents.dispatchEvent(event);
       }
 
@@ -60,36 +162,37 @@ export class GraffitiLocalIdentity {
     sessionRestorer();
   }
 
-  loggedInHandles: string[] = [];
-
-  protected getLoggedInHandles(): string[] {
-    if (typeof window !== "undefined") {
-      const handlesString = window.localStorage.getItem("graffiti-handles");
-      return handlesString
-        ? handlesString.split(",").map(decodeURIComponent)
-        : [];
-    } else {
-      return this.loggedInHandles;
-    }
+  protected async getLoggedInHandles(): Promise<string[]> {
+    const handlesString = await this.sessionStore.getItem("graffiti-handles");
+    return handlesString
+      ? handlesString.split(",").map(decodeURIComponent)
+      : [];
   }
 
-  protected setLoggedInHandles(handles: string[]) {
-    if (typeof window !== "undefined") {
-      window.localStorage.setItem("graffiti-handles", handles.join(","));
-    } else {
-      this.loggedInHandles = handles;
-    }
+  protected async setLoggedInHandles(handles: string[]) {
+    await this.sessionStore.setItem(
+      "graffiti-handles",
+      handles.map(encodeURIComponent).join(","),
+    );
   }
 
   login: Graffiti["login"] = async (actor) => {
     // Wait a tick for the browser to update the UI
     await new Promise((resolve) => setTimeout(resolve, 0));
 
-    let handle = actor ? await this.actorToHandle(actor) : undefined;
-
-    if (typeof window !== "undefined") {
-      const response = window.prompt("Choose a username to log in.", handle);
-      handle = response ?? undefined;
+    let handle: string | undefined;
+    try {
+      const proposedHandle = actor
+        ? await this.actorToHandle(actor)
+        : undefined;
+      handle = (await this.loginPrompt(proposedHandle)) ?? undefined;
+    } catch (error) {
+      const detail: GraffitiLoginEvent["detail"] = {
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+      const event: GraffitiLoginEvent = new CustomEvent("login", { detail });
+      this.sessionEvents.dispatchEvent(event);
+      return;
     }
 
     if (!handle) {
@@ -99,21 +202,35 @@ export class GraffitiLocalIdentity {
       const event: GraffitiLoginEvent = new CustomEvent("login", { detail });
       this.sessionEvents.dispatchEvent(event);
     } else {
-      const existingHandles = this.getLoggedInHandles();
+      const loggedInActor = this.keys
+        ? await this.keys.create(handle)
+        : await this.handleToActor(handle);
+      const existingHandles = await this.getLoggedInHandles();
       if (!existingHandles.includes(handle)) {
-        this.setLoggedInHandles([...existingHandles, handle]);
+        await this.setLoggedInHandles([...existingHandles, handle]);
+      }
+      this.broadcast?.post({ type: "login", actor: loggedInActor });
+
+      if (this.reloadOnLogin) {
+        // Refresh the page to simulate oauth
+        window.location.reload();
+      } else {
+        const event: GraffitiLoginEvent = new CustomEvent("login", {
+          detail: { session: { actor: loggedInActor } },
+        });
+        this.sessionEvents.dispatchEvent(event);
       }
-      // Refresh the page to simulate oauth
-      window.location.reload();
     }
   };
 
   logout: Graffiti["logout"] = async (session) => {
     const handle = await this.actorToHandle(session.actor);
-    const existingHandles = this.getLoggedInHandles();
+    const existingHandles = await this.getLoggedInHandles();
     const exists = existingHandles.includes(handle);
     if (exists) {
-      this.setLoggedInHandles(existingHandles.filter((h) => h !== handle));
+      await this.setLoggedInHandles(
+        existingHandles.filter((h) => h !== handle),
+      );
     }
 
     const detail: GraffitiLogoutEvent["detail"] = exists
@@ -127,5 +244,8 @@ export class GraffitiLocalIdentity {
 
     const event: GraffitiLogoutEvent = new CustomEvent("logout", { detail });
     this.sessionEvents.dispatchEvent(event);
+    if (exists) {
+      this.broadcast?.post({ type: "logout", actor: session.actor });
+    }
   };
 }
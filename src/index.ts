@@ -1,9 +1,108 @@
 import { Graffiti, GraffitiRuntimeTypes } from "@graffiti-garden/api";
-import { GraffitiLocalIdentity } from "./identity";
-import { GraffitiLocalObjects, type GraffitiLocalOptions } from "./objects";
-import { GraffitiLocalMedia } from "./media";
+import {
+  GraffitiLocalIdentity,
+  type GraffitiLocalLoginPrompt,
+} from "./identity";
+import {
+  defaultSessionStore,
+  GraffitiLocalMemorySessionStore,
+  type GraffitiLocalSessionStore,
+} from "./session-store";
+import {
+  GraffitiLocalObjects,
+  type GraffitiLocalOptions,
+  type GraffitiLocalLiveStream,
+  type GraffitiLocalRevision,
+  type GraffitiLocalDiscoverOptions,
+  type GraffitiLocalDiscoverOrder,
+  type GraffitiLocalSearchOptions,
+  type GraffitiLocalSearchResult,
+} from "./objects";
+import {
+  GraffitiLocalMedia,
+  type GraffitiLocalMediaRange,
+  type GraffitiLocalMediaStream,
+  type GraffitiLocalPostMediaStream,
+} from "./media";
+import { GraffitiLocalReplication } from "./replication";
+import type { GraffitiLocalKeys, GraffitiLocalKeySeed } from "./keys";
+import { GraffitiLocalArchive } from "./archive";
+import { GraffitiLocalGroups, type GraffitiLocalGroupValue } from "./groups";
+import type { GraffitiLocalQuotaOptions } from "./quotas";
+import type { GraffitiLocalEncryptionOptions } from "./encryption";
+import type { GraffitiLocalStorage } from "./storage";
+import { GraffitiLocalMemoryStorage } from "./storage-memory";
+import type { GraffitiLocalPouchDBStorageOptions } from "./storage-pouchdb";
+import type {
+  GraffitiLocalMigration,
+  GraffitiLocalMigrationProgress,
+} from "./migrations";
+import type { GraffitiLocalClientOptions } from "./client";
+import type { GraffitiLocalFaultOptions } from "./faults";
+import {
+  createKeySeeds,
+  createSequentialIds,
+  createSnapshot,
+  createSteppingClock,
+  seedFixture,
+  type GraffitiLocalFixture,
+  type GraffitiLocalFixtureMedia,
+  type GraffitiLocalFixtureObject,
+  type GraffitiLocalSnapshot,
+} from "./fixtures";
+import type {
+  GraffitiLocalObjectEvent,
+  GraffitiLocalObjectEventOptions,
+  GraffitiLocalObjectEventType,
+} from "./events";
 
-export type { GraffitiLocalOptions };
+export type {
+  GraffitiLocalOptions,
+  GraffitiLocalLiveStream,
+  GraffitiLocalRevision,
+  GraffitiLocalDiscoverOptions,
+  GraffitiLocalDiscoverOrder,
+  GraffitiLocalSearchOptions,
+  GraffitiLocalSearchResult,
+  GraffitiLocalStorage,
+  GraffitiLocalPouchDBStorageOptions,
+  GraffitiLocalMigration,
+  GraffitiLocalMigrationProgress,
+  GraffitiLocalMediaRange,
+  GraffitiLocalMediaStream,
+  GraffitiLocalPostMediaStream,
+  GraffitiLocalSessionStore,
+  GraffitiLocalLoginPrompt,
+  GraffitiLocalKeySeed,
+  GraffitiLocalQuotaOptions,
+  GraffitiLocalEncryptionOptions,
+  GraffitiLocalClientOptions,
+  GraffitiLocalFaultOptions,
+  GraffitiLocalGroupValue,
+  GraffitiLocalFixture,
+  GraffitiLocalFixtureMedia,
+  GraffitiLocalFixtureObject,
+  GraffitiLocalSnapshot,
+  GraffitiLocalObjectEvent,
+  GraffitiLocalObjectEventOptions,
+  GraffitiLocalObjectEventType,
+};
+export { GraffitiLocalErrorRateLimited } from "./quotas";
+export { GraffitiLocalErrorDecryption } from "./encryption";
+export { GraffitiLocalClient } from "./client";
+export { GraffitiLocalFaults, GraffitiLocalErrorNetwork } from "./faults";
+export {
+  createKeySeeds,
+  createSequentialIds,
+  createSteppingClock,
+} from "./fixtures";
+export { GraffitiLocalMemoryStorage } from "./storage-memory";
+export { GraffitiLocalPouchDBStorage } from "./storage-pouchdb";
+export {
+  GraffitiLocalBrowserSessionStore,
+  GraffitiLocalFileSessionStore,
+  GraffitiLocalMemorySessionStore,
+} from "./session-store";
 
 /**
  * A local implementation of the [Graffiti API](https://api.graffiti.garden/classes/Graffiti.html)
@@ -11,25 +110,152 @@ export type { GraffitiLocalOptions };
  * database, either in the browser or in Node.js.
  * It can also be configured to work with an external [CouchDB](https://couchdb.apache.org/) server,
  * although using it with a remote server will not be secure.
+ * Alternatively, a {@link GraffitiLocalMemoryStorage} can be passed
+ * as the `storage` option to keep everything in memory.
  */
 export class GraffitiLocal extends GraffitiRuntimeTypes {
+  /**
+   * Permanently removes objects that have been deleted for longer
+   * than {@link GraffitiLocalOptions.tombstoneRetention}.
+   */
+  purgeTombstones: GraffitiLocalObjects["purgeTombstones"];
+  /**
+   * Like {@link discover}, but yields at most `limit` objects per page.
+   * Continuing the returned cursor yields the next page.
+   */
+  discoverPage: GraffitiLocalObjects["discoverPage"];
+  /**
+   * Like {@link discover}, but merges the channels into one
+   * stream ordered by `lastModified`, ascending or descending.
+   */
+  discoverOrdered: GraffitiLocalObjects["discoverOrdered"];
+  /**
+   * Like {@link discover}, but the stream stays open and yields
+   * new objects and tombstones as soon as they are written.
+   */
+  discoverLive: GraffitiLocalObjects["discoverLive"];
+  /**
+   * Like {@link continueDiscover}, but the stream stays open and yields
+   * new objects and tombstones as soon as they are written.
+   */
+  continueDiscoverLive: GraffitiLocalObjects["continueDiscoverLive"];
+  /**
+   * Finds objects in channels whose values contain the words
+   * of a query, ranked by how well they match.
+   */
+  search: GraffitiLocalObjects["search"];
+  /**
+   * Yields the objects and media that are posted and deleted
+   * from when iteration begins, with their URL, actor and channels,
+   * filtered to what the session is allowed to see.
+   */
+  objectEvents: GraffitiLocalObjects["objectEvents"];
+  /**
+   * Lists the stored revisions of an object that the session can see.
+   */
+  revisions: GraffitiLocalObjects["revisions"];
+  /**
+   * Like {@link get}, but returns a specific earlier revision
+   * or the revision that was current at a given time.
+   */
+  getRevision: GraffitiLocalObjects["getRevision"];
+  /**
+   * Start, stop and monitor replication with other
+   * PouchDB or CouchDB databases.
+   */
+  replication: GraffitiLocalReplication;
+  /**
+   * The key pairs behind `did:key` actors, used to sign
+   * and verify objects. See {@link GraffitiLocalOptions.identity}.
+   */
+  keys: GraffitiLocalKeys;
+  /**
+   * Export objects and media to a portable archive
+   * and import them into another database.
+   */
+  archive: GraffitiLocalArchive;
+  /**
+   * Create and change groups of actors whose URLs can
+   * be used in `allowed` lists to share with every member.
+   */
+  groups: GraffitiLocalGroups;
+  /**
+   * Like {@link postMedia}, but reads the data from a `ReadableStream`.
+   */
+  postMediaStream: GraffitiLocalMedia["postMediaStream"];
+  /**
+   * Like {@link getMedia}, but returns a `ReadableStream`
+   * of the data or a range of its bytes.
+   */
+  getMediaStream: GraffitiLocalMedia["getMediaStream"];
+  /**
+   * Dumps every object, tombstone and media in storage in
+   * a canonical order, to compare against an expected state.
+   */
+  snapshot: () => Promise<GraffitiLocalSnapshot>;
+
+  /**
+   * Creates a {@link GraffitiLocal} that holds the objects and media of
+   * a fixture. Unless overridden by `options`, it stores everything in
+   * memory, logs in without prompting, and uses a
+   * {@link createSteppingClock | stepping clock} and
+   * {@link createSequentialIds | sequential IDs} and
+   * {@link createKeySeeds | seeded keys}, so the same fixture always
+   * produces the same actors, URLs, timestamps and signatures.
+   */
+  static async fromFixture(
+    fixture: GraffitiLocalFixture,
+    options?: GraffitiLocalOptions,
+  ): Promise<GraffitiLocal> {
+    const graffiti = new GraffitiLocal({
+      storage: new GraffitiLocalMemoryStorage(),
+      sessionStore: new GraffitiLocalMemorySessionStore(),
+      loginPrompt: (handle) => handle,
+      reloadOnLogin: false,
+      purgeInterval: 0,
+      now: createSteppingClock(),
+      generateId: createSequentialIds(),
+      clockNode: "fixture",
+      keySeed: createKeySeeds(),
+      ...options,
+    });
+    await seedFixture(
+      graffiti,
+      fixture,
+      options?.identity === "did:key" ? graffiti.keys : undefined,
+    );
+    return graffiti;
+  }
+
   constructor(options?: GraffitiLocalOptions) {
     const graffiti = new GraffitiLocal_(options);
     super(graffiti);
+    this.replication = graffiti.replication;
+    this.keys = graffiti.keys;
+    this.archive = graffiti.archive;
+    this.groups = graffiti.groups;
+    this.purgeTombstones = graffiti.purgeTombstones;
+    this.discoverPage = graffiti.discoverPage;
+    this.discoverOrdered = graffiti.discoverOrdered;
+    this.discoverLive = graffiti.discoverLive;
+    this.continueDiscoverLive = graffiti.continueDiscoverLive;
+    this.search = graffiti.search;
+    this.objectEvents = graffiti.objectEvents;
+    this.revisions = graffiti.revisions;
+    this.getRevision = graffiti.getRevision;
+    this.postMediaStream = graffiti.postMediaStream;
+    this.getMediaStream = graffiti.getMediaStream;
+    this.snapshot = () => createSnapshot(graffiti.archive);
   }
 }
 
 class GraffitiLocal_ implements Graffiti {
-  protected graffitiLocalIdentity = new GraffitiLocalIdentity();
-  login = this.graffitiLocalIdentity.login.bind(this.graffitiLocalIdentity);
-  logout = this.graffitiLocalIdentity.logout.bind(this.graffitiLocalIdentity);
-  handleToActor = this.graffitiLocalIdentity.handleToActor.bind(
-    this.graffitiLocalIdentity,
-  );
-  actorToHandle = this.graffitiLocalIdentity.actorToHandle.bind(
-    this.graffitiLocalIdentity,
-  );
-  sessionEvents = this.graffitiLocalIdentity.sessionEvents;
+  protected graffitiLocalIdentity: GraffitiLocalIdentity;
+  login: Graffiti["login"];
+  logout: Graffiti["logout"];
+  handleToActor: Graffiti["handleToActor"];
+  actorToHandle: Graffiti["actorToHandle"];
+  sessionEvents: Graffiti["sessionEvents"];
 
   protected graffitiLocalObjects: GraffitiLocalObjects;
   post: Graffiti["post"];
@@ -37,14 +263,60 @@ class GraffitiLocal_ implements Graffiti {
   delete: Graffiti["delete"];
   discover: Graffiti["discover"];
   continueDiscover: Graffiti["continueDiscover"];
+  purgeTombstones: GraffitiLocalObjects["purgeTombstones"];
+  discoverPage: GraffitiLocalObjects["discoverPage"];
+  discoverOrdered: GraffitiLocalObjects["discoverOrdered"];
+  discoverLive: GraffitiLocalObjects["discoverLive"];
+  continueDiscoverLive: GraffitiLocalObjects["continueDiscoverLive"];
+  search: GraffitiLocalObjects["search"];
+  objectEvents: GraffitiLocalObjects["objectEvents"];
+  revisions: GraffitiLocalObjects["revisions"];
+  getRevision: GraffitiLocalObjects["getRevision"];
+
+  replication: GraffitiLocalReplication;
+  keys: GraffitiLocalKeys;
+  archive: GraffitiLocalArchive;
+  groups: GraffitiLocalGroups;
 
   protected graffitiLocalMedia: GraffitiLocalMedia;
   postMedia: Graffiti["postMedia"];
   getMedia: Graffiti["getMedia"];
   deleteMedia: Graffiti["deleteMedia"];
+  postMediaStream: GraffitiLocalMedia["postMediaStream"];
+  getMediaStream: GraffitiLocalMedia["getMediaStream"];
 
   constructor(options?: GraffitiLocalOptions) {
-    this.graffitiLocalObjects = new GraffitiLocalObjects(options);
+    // Share one session store between logins and key pairs
+    const sessionStore = options?.sessionStore ?? defaultSessionStore();
+    this.graffitiLocalObjects = new GraffitiLocalObjects({
+      ...options,
+      sessionStore,
+    });
+
+    this.graffitiLocalIdentity = new GraffitiLocalIdentity({
+      keys:
+        options?.identity === "did:key"
+          ? this.graffitiLocalObjects.keys
+          : undefined,
+      sessionStore,
+      loginPrompt: options?.loginPrompt,
+      reloadOnLogin: options?.reloadOnLogin,
+      broadcast: this.graffitiLocalObjects.broadcast,
+    });
+    this.login = this.graffitiLocalIdentity.login.bind(
+      this.graffitiLocalIdentity,
+    );
+    this.logout = this.graffitiLocalIdentity.logout.bind(
+      this.graffitiLocalIdentity,
+    );
+    this.handleToActor = this.graffitiLocalIdentity.handleToActor.bind(
+      this.graffitiLocalIdentity,
+    );
+    this.actorToHandle = this.graffitiLocalIdentity.actorToHandle.bind(
+      this.graffitiLocalIdentity,
+    );
+    this.sessionEvents = this.graffitiLocalIdentity.sessionEvents;
+
     this.post = this.graffitiLocalObjects.post.bind(this.graffitiLocalObjects);
     this.get = this.graffitiLocalObjects.get.bind(this.graffitiLocalObjects);
     this.delete = this.graffitiLocalObjects.delete.bind(
@@ -56,8 +328,27 @@ class GraffitiLocal_ implements Graffiti {
     this.continueDiscover = this.graffitiLocalObjects.continueDiscover.bind(
       this.graffitiLocalObjects,
     );
+    this.purgeTombstones = this.graffitiLocalObjects.purgeTombstones;
+    this.discoverPage = this.graffitiLocalObjects.discoverPage;
+    this.discoverOrdered = this.graffitiLocalObjects.discoverOrdered;
+    this.discoverLive = this.graffitiLocalObjects.discoverLive;
+    this.continueDiscoverLive = this.graffitiLocalObjects.continueDiscoverLive;
+    this.search = this.graffitiLocalObjects.search;
+    this.objectEvents = this.graffitiLocalObjects.objectEvents;
+    this.revisions = this.graffitiLocalObjects.revisions;
+    this.getRevision = this.graffitiLocalObjects.getRevision;
 
-    this.graffitiLocalMedia = new GraffitiLocalMedia(this.graffitiLocalObjects);
+    this.replication = new GraffitiLocalReplication(this.graffitiLocalObjects);
+    this.keys = this.graffitiLocalObjects.keys;
+    this.archive = new GraffitiLocalArchive(this.graffitiLocalObjects);
+    this.groups = new GraffitiLocalGroups(this.graffitiLocalObjects);
+
+    this.graffitiLocalMedia = new GraffitiLocalMedia(
+      this.graffitiLocalObjects,
+      this.graffitiLocalObjects.storage,
+      this.graffitiLocalObjects.quotas,
+      this.graffitiLocalObjects.encryption,
+    );
     this.postMedia = this.graffitiLocalMedia.postMedia.bind(
       this.graffitiLocalMedia,
     );
@@ -67,5 +358,7 @@ class GraffitiLocal_ implements Graffiti {
     this.deleteMedia = this.graffitiLocalMedia.deleteMedia.bind(
       this.graffitiLocalMedia,
     );
+    this.postMediaStream = this.graffitiLocalMedia.postMediaStream;
+    this.getMediaStream = this.graffitiLocalMedia.getMediaStream;
   }
 }
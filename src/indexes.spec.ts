@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import type { JSONSchema } from "@graffiti-garden/api";
+import {
+  GraffitiLocal,
+  GraffitiLocalMemoryStorage,
+  type GraffitiLocalStorage,
+} from "./index";
+import { randomBase64 } from "./utilities";
+import { tempPouchDBStorages } from "./test-utilities";
+
+const session = { actor: "did:example:someone" };
+
+async function discoverUrls(
+  graffiti: GraffitiLocal,
+  channels: string[],
+  schema: JSONSchema,
+  order?: "descending",
+) {
+  const urls: string[] = [];
+  for await (const result of order
+    ? graffiti.discoverOrdered(channels, schema, session, { order })
+    : graffiti.discover(channels, schema, session)) {
+    if (!result.error) urls.push(result.object.url);
+  }
+  return urls;
+}
+
+const createPouchDBStorage = tempPouchDBStorages("indexes");
+
+describe.each([
+  ["memory", () => new GraffitiLocalMemoryStorage()],
+  ["PouchDB", () => createPouchDBStorage()],
+] as [string, () => GraffitiLocalStorage][])(
+  "value indexes with %s storage",
+  (_, createStorage) => {
+    it("discovers the same objects as without the index", async () => {
+      const storage = createStorage();
+      const indexed = new GraffitiLocal({
+        storage,
+        indexes: ["value.type", "value.reply.to"],
+      });
+      const unindexed = new GraffitiLocal({ storage });
+
+      const channels = [randomBase64(), randomBase64()];
+      for (const value of [
+        { type: "note" },
+        { type: "like" },
+        { type: "note", reply: { to: "a" } },
+        { type: 1 },
+        { reply: { to: "b" } },
+        {},
+      ]) {
+        for (const channel of channels) {
+          await indexed.post<{}>({ value, channels: [channel] }, session);
+        }
+      }
+
+      const schemas: JSONSchema[] = [
+        {
+          properties: {
+            value: {
+              required: ["type"],
+              properties: { type: { const: "note" } },
+            },
+          },
+        },
+        {
+          properties: {
+            value: {
+              required: ["type"],
+              properties: { type: { enum: ["like", 1] } },
+            },
+          },
+        },
+        {
+          properties: {
+            value: {
+              required: ["reply"],
+              properties: {
+                reply: {
+                  required: ["to"],
+                  properties: { to: { enum: ["a", "b"] } },
+                },
+              },
+            },
+          },
+        },
+        // Not required, so the index can't be used
+        { properties: { value: { properties: { type: { const: "note" } } } } },
+      ];
+      for (const schema of schemas) {
+        const expected = await discoverUrls(unindexed, channels, schema);
+        expect(expected.length).toBeGreaterThan(0);
+        await expect(discoverUrls(indexed, channels, schema)).resolves.toEqual(
+          expected,
+        );
+        await expect(
+          discoverUrls(indexed, channels, schema, "descending"),
+        ).resolves.toEqual(
+          await discoverUrls(unindexed, channels, schema, "descending"),
+        );
+      }
+    });
+
+    it("matches arrays that contain any of the values", async () => {
+      const storage = createStorage();
+      const graffiti = new GraffitiLocal({ storage });
+      const channel = randomBase64();
+      const urls: string[] = [];
+      const [a, b, c] = ["a", "b", "c"].map((id) => `did:example:${id}`);
+      for (const allowed of [[a], [b, a], [c], undefined]) {
+        const posted = await graffiti.post<{}>(
+          { value: {}, channels: [channel], allowed },
+          session,
+        );
+        urls.push(posted.url);
+      }
+
+      const objects = await storage.queryChannel(channel, {
+        filter: { path: "allowed", values: [a, b] },
+      });
+      expect(objects.map((object) => object.url)).toEqual(urls.slice(0, 2));
+    });
+
+    it("finds the latest object after an index is created", async () => {
+      const storage = createStorage();
+      const graffiti = new GraffitiLocal({ storage, indexes: ["value.type"] });
+      const channels = [randomBase64()];
+
+      const posted = await graffiti.post<{}>(
+        { value: { type: "note" }, channels },
+        session,
+      );
+      // The first query creates the index
+      await discoverUrls(graffiti, channels, {
+        properties: {
+          value: {
+            required: ["type"],
+            properties: { type: { const: "note" } },
+          },
+        },
+      });
+
+      await expect(storage.latest()).resolves.toMatchObject({
+        url: posted.url,
+      });
+    });
+  },
+);
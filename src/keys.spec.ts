@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import {
+  GraffitiErrorForbidden,
+  GraffitiErrorNotFound,
+} from "@graffiti-garden/api";
+import { GraffitiLocal, GraffitiLocalMemoryStorage } from "./index";
+import { randomBase64 } from "./utilities";
+
+describe("did:key identities", () => {
+  it("signs objects and hides ones that were tampered with", async () => {
+    const storage = new GraffitiLocalMemoryStorage();
+    const graffiti = new GraffitiLocal({ storage, identity: "did:key" });
+    const actor = await graffiti.keys.create("alice");
+    expect(actor).toMatch(/^did:key:z6Mk/);
+    expect(await graffiti.handleToActor("alice")).toBe(actor);
+    expect(await graffiti.actorToHandle(actor)).toBe("alice");
+
+    const session = { actor };
+    const channels = [randomBase64()];
+    const posted = await graffiti.post<{}>(
+      { value: { text: "hello" }, channels },
+      session,
+    );
+    await expect(graffiti.get(posted, {})).resolves.toMatchObject({
+      value: { text: "hello" },
+    });
+
+    // Another device that only sees the stored data
+    // can still verify the signature
+    const other = new GraffitiLocal({ storage });
+    await expect(other.get(posted, {})).resolves.toMatchObject({ actor });
+
+    const stored = await storage.get(posted.url);
+    await storage.put({ ...stored!, value: { text: "forged" } });
+    await expect(graffiti.get(posted, {})).rejects.toThrow(
+      GraffitiErrorNotFound,
+    );
+    const iterator = graffiti.discover(channels, {});
+    expect((await iterator.next()).done).toBe(true);
+  });
+
+  it("signs when objects were deleted", async () => {
+    const storage = new GraffitiLocalMemoryStorage();
+    const graffiti = new GraffitiLocal({ storage, identity: "did:key" });
+    const actor = await graffiti.keys.create("alice");
+    const posted = await graffiti.post<{}>(
+      { value: {}, channels: [] },
+      { actor },
+    );
+    await graffiti.delete(posted, { actor });
+
+    const tombstone = (await storage.get(posted.url))!;
+    await expect(graffiti.keys.verify(actor, tombstone)).resolves.toBe(true);
+    // So it can't be moved back to purge the tombstone early
+    await expect(
+      graffiti.keys.verify(actor, { ...tombstone, deletedAt: 0 }),
+    ).resolves.toBe(false);
+  });
+
+  it("cannot post as an actor without its private key", async () => {
+    const graffiti = new GraffitiLocal({
+      storage: new GraffitiLocalMemoryStorage(),
+      identity: "did:key",
+    });
+    const actor = await new GraffitiLocal({
+      storage: new GraffitiLocalMemoryStorage(),
+      identity: "did:key",
+    }).keys.create("mallory");
+
+    await expect(
+      graffiti.post<{}>({ value: {}, channels: [] }, { actor }),
+    ).rejects.toThrow(GraffitiErrorForbidden);
+  });
+});
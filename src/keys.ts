@@ -0,0 +1,246 @@
+import { GraffitiErrorForbidden } from "@graffiti-garden/api";
+import {
+  decodeBase58,
+  encodeBase58,
+  encodeBase64,
+  decodeBase64,
+  canonicalJSON,
+} from "./utilities.js";
+import type { GraffitiLocalStoredObject } from "./storage.js";
+import {
+  defaultSessionStore,
+  type GraffitiLocalSessionStore,
+} from "./session-store.js";
+
+const DID_KEY_PREFIX = "did:key:z";
+// The multicodec prefix for an Ed25519 public key
+const ED25519_PUBLIC_KEY_CODEC = [0xed, 0x01];
+const ED25519 = { name: "Ed25519" };
+// The PKCS #8 encoding of an Ed25519 private key, up to its 32-byte seed
+const ED25519_PKCS8_PREFIX = [
+  0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x04,
+  0x22, 0x04, 0x20,
+];
+
+/**
+ * Returns the 32-byte seed from which to derive the private key
+ * of a handle, so that its `did:key` actor is reproducible.
+ */
+export type GraffitiLocalKeySeed = (
+  handle: string,
+) => Uint8Array | Promise<Uint8Array>;
+
+type StoredKeyPair = {
+  actor: string;
+  privateKey: JsonWebKey;
+};
+
+/**
+ * Whether an actor is a `did:key` whose objects must be signed.
+ */
+export function isDidKey(actor: string) {
+  return actor.startsWith(DID_KEY_PREFIX);
+}
+
+/**
+ * The bytes that are signed for an object: everything
+ * that its author controls, including whether and when it was
+ * deleted. Objects that aren't deleted have no `deletedAt`.
+ */
+function signedBytes(object: GraffitiLocalStoredObject) {
+  const {
+    url,
+    value,
+    channels,
+    allowed,
+    tombstone,
+    lastModified,
+    deletedAt,
+    media,
+  } = object;
+  return new TextEncoder().encode(
+    canonicalJSON({
+      url,
+      value,
+      channels,
+      allowed: allowed ?? null,
+      tombstone,
+      lastModified,
+      deletedAt,
+      media,
+    }),
+  );
+}
+
+/**
+ * Generates and stores an Ed25519 key pair for each handle, identified
+ * by a [`did:key`](https://w3c-ccg.github.io/did-method-key/) actor,
+ * and signs and verifies objects with them.
+ *
+ * Key pairs are kept in a {@link GraffitiLocalSessionStore}
+ * alongside the logged in handles.
+ */
+export class GraffitiLocalKeys {
+  protected sessionStore: GraffitiLocalSessionStore;
+  protected signingKeys = new Map<string, Promise<CryptoKey>>();
+  protected verifyingKeys = new Map<string, Promise<CryptoKey>>();
+  protected keySeed: GraffitiLocalKeySeed | undefined;
+
+  /**
+   * @param keySeed Derives key pairs from seeds rather
+   * than generating them at random.
+   */
+  constructor(
+    sessionStore?: GraffitiLocalSessionStore,
+    keySeed?: GraffitiLocalKeySeed,
+  ) {
+    this.sessionStore = sessionStore ?? defaultSessionStore();
+    this.keySeed = keySeed;
+  }
+
+  protected async getKeyPairs(): Promise<Record<string, StoredKeyPair>> {
+    const keysString = await this.sessionStore.getItem("graffiti-keys");
+    return keysString ? JSON.parse(keysString) : {};
+  }
+
+  protected async setKeyPairs(keyPairs: Record<string, StoredKeyPair>) {
+    await this.sessionStore.setItem("graffiti-keys", JSON.stringify(keyPairs));
+  }
+
+  /**
+   * Returns the actor for a handle, generating
+   * a new key pair if the handle has none yet.
+   */
+  create = async (handle: string): Promise<string> => {
+    const existing = (await this.getKeyPairs())[handle];
+    if (existing) return existing.actor;
+
+    let privateKey: CryptoKey;
+    if (this.keySeed) {
+      const seed = await this.keySeed(handle);
+      if (seed.length !== 32) throw new Error("Key seeds must be 32 bytes");
+      privateKey = await crypto.subtle.importKey(
+        "pkcs8",
+        Uint8Array.from([...ED25519_PKCS8_PREFIX, ...seed]),
+        ED25519,
+        true,
+        ["sign"],
+      );
+    } else {
+      ({ privateKey } = (await crypto.subtle.generateKey(ED25519, true, [
+        "sign",
+        "verify",
+      ])) as CryptoKeyPair);
+    }
+    // The private key includes its public key as `x`
+    const jwk = await crypto.subtle.exportKey("jwk", privateKey);
+    const raw = decodeBase64(jwk.x!);
+    const actor =
+      DID_KEY_PREFIX +
+      encodeBase58(Uint8Array.from([...ED25519_PUBLIC_KEY_CODEC, ...raw]));
+
+    await this.setKeyPairs({
+      ...(await this.getKeyPairs()),
+      [handle]: { actor, privateKey: jwk },
+    });
+    return actor;
+  };
+
+  /**
+   * Returns the actor for a handle with a stored key pair, if any.
+   */
+  handleToActor = async (handle: string): Promise<string | undefined> => {
+    return (await this.getKeyPairs())[handle]?.actor;
+  };
+
+  /**
+   * Returns the handle whose key pair belongs to `actor`, if any.
+   */
+  actorToHandle = async (actor: string): Promise<string | undefined> => {
+    return Object.entries(await this.getKeyPairs()).find(
+      ([, keyPair]) => keyPair.actor === actor,
+    )?.[0];
+  };
+
+  protected signingKey(actor: string) {
+    let key = this.signingKeys.get(actor);
+    if (!key) {
+      key = (async () => {
+        const keyPair = Object.values(await this.getKeyPairs()).find(
+          (keyPair) => keyPair.actor === actor,
+        );
+        if (!keyPair) {
+          throw new GraffitiErrorForbidden(
+            `There is no private key stored for ${actor}`,
+          );
+        }
+        return crypto.subtle.importKey(
+          "jwk",
+          keyPair.privateKey,
+          ED25519,
+          false,
+          ["sign"],
+        );
+      })();
+      // Don't cache missing keys, which may be created later
+      key.catch(() => this.signingKeys.delete(actor));
+      this.signingKeys.set(actor, key);
+    }
+    return key;
+  }
+
+  protected verifyingKey(actor: string) {
+    let key = this.verifyingKeys.get(actor);
+    if (!key) {
+      const bytes = decodeBase58(actor.slice(DID_KEY_PREFIX.length));
+      if (
+        bytes[0] !== ED25519_PUBLIC_KEY_CODEC[0] ||
+        bytes[1] !== ED25519_PUBLIC_KEY_CODEC[1]
+      ) {
+        throw new Error(`${actor} is not an Ed25519 key`);
+      }
+      key = crypto.subtle.importKey("raw", bytes.slice(2), ED25519, false, [
+        "verify",
+      ]);
+      this.verifyingKeys.set(actor, key);
+    }
+    return key;
+  }
+
+  /**
+   * Signs an object with the private key of `actor`.
+   *
+   * @throws {@link GraffitiErrorForbidden} if the key is not stored here.
+   */
+  sign = async (
+    actor: string,
+    object: GraffitiLocalStoredObject,
+  ): Promise<string> => {
+    const signature = await crypto.subtle.sign(
+      ED25519,
+      await this.signingKey(actor),
+      signedBytes(object),
+    );
+    return encodeBase64(new Uint8Array(signature));
+  };
+
+  /**
+   * Checks that an object by a `did:key` actor was signed by that key.
+   */
+  verify = async (
+    actor: string,
+    object: GraffitiLocalStoredObject,
+  ): Promise<boolean> => {
+    if (!object.signature) return false;
+    try {
+      return await crypto.subtle.verify(
+        ED25519,
+        await this.verifyingKey(actor),
+        new Uint8Array(decodeBase64(object.signature)),
+        signedBytes(object),
+      );
+    } catch {
+      return false;
+    }
+  };
+}
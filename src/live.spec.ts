@@ -0,0 +1,34 @@
+import { describe, it, expect, assert } from "vitest";
+import { GraffitiLocal } from "./index";
+import { randomBase64 } from "./utilities";
+
+const session = { actor: "did:example:someone" };
+
+describe("live discover", () => {
+  it("yields posts and deletes as they happen", async () => {
+    const graffiti = new GraffitiLocal({ purgeInterval: 0 });
+    const channels = [randomBase64()];
+
+    const before = await graffiti.post<{}>({ value: {}, channels }, session);
+    const stream = graffiti.discoverLive<{}>(channels, {}, session);
+
+    const first = await stream.next();
+    assert(!first.done && !first.value.tombstone);
+    expect(first.value.object.url).toBe(before.url);
+
+    const after = await graffiti.post<{}>({ value: {}, channels }, session);
+    const second = await stream.next();
+    assert(!second.done && !second.value.tombstone);
+    expect(second.value.object.url).toBe(after.url);
+
+    // Objects in other channels are not included
+    await graffiti.post<{}>({ value: {}, channels: [randomBase64()] }, session);
+    await graffiti.delete(before, session);
+    const third = await stream.next();
+    assert(!third.done);
+    expect(third.value.tombstone).toBe(true);
+    expect(third.value.object.url).toBe(before.url);
+
+    await expect(stream.return()).resolves.toHaveProperty("done", true);
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect } from "vitest";
+import { GraffitiErrorTooLarge } from "@graffiti-garden/api";
+import {
+  GraffitiLocal,
+  GraffitiLocalMemoryStorage,
+  GraffitiLocalPouchDBStorage,
+} from "./index";
+import {
+  blobToBase64,
+  encodeObjectUrl,
+  randomBase64,
+  sha256Base64,
+} from "./utilities";
+import { GraffitiLocalEncryption } from "./encryption";
+import { tempPouchDBStorages } from "./test-utilities";
+
+const session = { actor: "did:example:someone" };
+const createStorage = tempPouchDBStorages("media");
+
+async function countBlobs(storage: GraffitiLocalPouchDBStorage) {
+  const result = await (
+    await storage.mediaDb
+  ).allDocs({ startkey: "blob:", endkey: "blob:\uffff" });
+  return result.rows.length;
+}
+
+describe("media attachments", () => {
+  it("deduplicates identical media until every copy is deleted", async () => {
+    const storage = createStorage();
+    const graffiti = new GraffitiLocal({ storage });
+    const data = new Blob([randomBase64(64)], { type: "text/plain" });
+
+    const first = await graffiti.postMedia({ data }, session);
+    const second = await graffiti.postMedia({ data }, session);
+    expect(await countBlobs(storage)).toBe(1);
+
+    await graffiti.deleteMedia(first, session);
+    expect(await countBlobs(storage)).toBe(1);
+    const { data: read } = await graffiti.getMedia(second, {}, session);
+    expect(read.type).toBe("text/plain");
+    expect(await read.text()).toBe(await data.text());
+
+    await graffiti.deleteMedia(second, session);
+    expect(await countBlobs(storage)).toBe(0);
+  });
+
+  it("releases media however its object is deleted", async () => {
+    const storage = new GraffitiLocalMemoryStorage();
+    const graffiti = new GraffitiLocal({
+      storage,
+      tombstoneRetention: 0,
+      purgeInterval: 0,
+    });
+    const data = new Blob([randomBase64(64)], { type: "text/plain" });
+    const hash = await sha256Base64(data);
+
+    const url = await graffiti.postMedia({ data }, session);
+    await graffiti.delete(url, session);
+    expect(await storage.getMedia(hash)).toBeUndefined();
+
+    // As if replicated in from a database that deleted it
+    const replicated = encodeObjectUrl(session.actor, randomBase64());
+    await storage.retainMedia(hash, replicated, data);
+    await storage.put({
+      url: replicated,
+      value: { hash, type: data.type, size: data.size },
+      media: { hash, size: data.size },
+      channels: [],
+      lastModified: 1,
+      tombstone: true,
+      deletedAt: 0,
+    });
+    await expect(graffiti.purgeTombstones()).resolves.toBe(2);
+    expect(await storage.getMedia(hash)).toBeUndefined();
+  });
+
+  it("ignores values that only look like media", async () => {
+    const storage = new GraffitiLocalMemoryStorage();
+    const graffiti = new GraffitiLocal({ storage });
+    const data = new Blob([randomBase64(64)], { type: "text/plain" });
+    const hash = await sha256Base64(data);
+    const mediaUrl = await graffiti.postMedia({ data }, session);
+
+    // Someone else refers to the same bytes in a plain object
+    const other = { actor: "did:example:other" };
+    const { url } = await graffiti.post<{}>(
+      { value: { hash, type: data.type, size: data.size }, channels: [] },
+      other,
+    );
+    await expect(graffiti.getMedia(url, {}, other)).rejects.toThrow(
+      "Invalid data",
+    );
+    await graffiti.delete(url, other);
+    expect(await storage.getMedia(hash)).toBeDefined();
+
+    await graffiti.deleteMedia(mediaUrl, session);
+    expect(await storage.getMedia(hash)).toBeUndefined();
+  });
+
+  it("reads media stored inline as base64", async () => {
+    const graffiti = new GraffitiLocal({
+      storage: new GraffitiLocalMemoryStorage(),
+    });
+    const data = new Blob([randomBase64(64)], { type: "text/plain" });
+
+    const { url } = await graffiti.post<{}>(
+      {
+        value: {
+          dataBase64: await blobToBase64(data),
+          type: data.type,
+          size: data.size,
+        },
+        channels: [],
+      },
+      session,
+    );
+
+    const { data: read } = await graffiti.getMedia(url, {}, session);
+    expect(await read.text()).toBe(await data.text());
+  });
+
+  it("streams byte ranges of media posted from a stream", async () => {
+    const graffiti = new GraffitiLocal({
+      storage: new GraffitiLocalMemoryStorage(),
+    });
+    const text = "0123456789";
+    const url = await graffiti.postMediaStream(
+      { data: new Blob([text]).stream(), type: "text/plain" },
+      session,
+    );
+
+    const read = async (start?: number, end?: number) => {
+      const media = await graffiti.getMediaStream(url, {}, session, {
+        start,
+        end,
+      });
+      return new Response(media.data).text();
+    };
+    await expect(read()).resolves.toBe(text);
+    await expect(read(2, 5)).resolves.toBe("234");
+    await expect(read(-3)).resolves.toBe("789");
+    await expect(read(5, 5)).rejects.toThrow(RangeError);
+    await expect(
+      graffiti.getMediaStream(url, { maxBytes: 5 }, session),
+    ).rejects.toThrow(GraffitiErrorTooLarge);
+  });
+
+  it("stores and reads media in encrypted records", async () => {
+    const passphrase = "correct horse battery staple";
+    const storage = createStorage();
+    const graffiti = new GraffitiLocal({
+      storage,
+      encryption: { passphrase },
+    });
+    // Spans several records, in chunks that don't line up with them
+    const bytes = new Uint8Array(150_000).map((_, i) => i % 251);
+    const chunks = [bytes.slice(0, 1000), bytes.slice(1000, 70_000)];
+    chunks.push(bytes.slice(70_000));
+    const url = await graffiti.postMediaStream(
+      {
+        data: new ReadableStream({
+          pull(controller) {
+            const chunk = chunks.shift();
+            if (chunk) controller.enqueue(chunk);
+            else controller.close();
+          },
+        }),
+        type: "application/octet-stream",
+      },
+      session,
+    );
+
+    // The hash is of the stored ciphertext
+    const { hash } = (await storage.get(url))!.media!;
+    const stored = await storage.getMedia(hash);
+    expect(await sha256Base64(stored!)).toBe(hash);
+
+    const read = async (start?: number, end?: number) => {
+      const media = await graffiti.getMediaStream(url, {}, session, {
+        start,
+        end,
+      });
+      return new Uint8Array(await new Response(media.data).arrayBuffer());
+    };
+    await expect(read()).resolves.toEqual(bytes);
+    await expect(read(65_000, 70_000)).resolves.toEqual(
+      bytes.slice(65_000, 70_000),
+    );
+    await expect(read(-10)).resolves.toEqual(bytes.slice(-10));
+    const { data } = await graffiti.getMedia(url, {}, session);
+    expect(new Uint8Array(await data.arrayBuffer())).toEqual(bytes);
+
+    // Encrypted media is always stored in records
+    const encryption = new GraffitiLocalEncryption({ passphrase });
+    const doc = (await storage.get(url))!;
+    const { recordBytes, ...rest } = (await encryption.decryptValue(doc)) as {
+      recordBytes: number;
+    };
+    await storage.put(await encryption.encryptObject({ ...doc, value: rest }));
+    await expect(graffiti.getMedia(url, {}, session)).rejects.toThrow(
+      "Invalid data",
+    );
+  });
+});
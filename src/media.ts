@@ -3,62 +3,278 @@ import {
   GraffitiErrorTooLarge,
   isMediaAcceptable,
   type Graffiti,
+  type GraffitiMedia,
+  type GraffitiMediaAccept,
+  type GraffitiSession,
   type JSONSchema,
 } from "@graffiti-garden/api";
-import { blobToBase64, base64ToBlob } from "./utilities";
+import {
+  base64ToBlob,
+  createSha256,
+  encodeBase64,
+  randomBase64,
+} from "./utilities";
+import type { GraffitiLocalStorage } from "./storage";
+import type { GraffitiLocalQuotas } from "./quotas";
+import type { GraffitiLocalObjects } from "./objects";
+import {
+  GraffitiLocalErrorDecryption,
+  MEDIA_RECORD_BYTES,
+  MEDIA_RECORD_OVERHEAD,
+  type GraffitiLocalEncryption,
+} from "./encryption";
 
+/**
+ * Media objects reference their bytes by SHA-256 `hash`, which
+ * is also kept in the stored object's `media` marker.
+ * Objects written by older versions of this package
+ * instead inline the bytes as a `dataBase64` data URL.
+ * If the bytes are `encrypted`, the hash is of the ciphertext,
+ * which is a series of records of `recordBytes` bytes each.
+ */
 const MEDIA_OBJECT_SCHEMA = {
   properties: {
     value: {
       properties: {
+        hash: { type: "string" },
         dataBase64: { type: "string" },
         type: { type: "string" },
         size: { type: "number" },
+        encrypted: { type: "boolean" },
+        recordBytes: { type: "number" },
       },
-      required: ["dataBase64", "type", "size"],
+      required: ["type", "size"],
     },
   },
 } as const satisfies JSONSchema;
 
+/**
+ * Splits a stream of bytes into pieces of `size` bytes,
+ * all but the last of which are full, so that each piece
+ * can be encrypted and stored on its own.
+ */
+async function* pieces(
+  stream: ReadableStream<Uint8Array>,
+  size: number,
+): AsyncGenerator<{ bytes: Uint8Array; last: boolean }> {
+  const reader = stream.getReader();
+  let finished = false;
+  try {
+    let piece = new Uint8Array(size);
+    let filled = 0;
+    // A full piece, held until it is known whether it is the last
+    let full: Uint8Array | undefined;
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      let offset = 0;
+      while (offset < value.length) {
+        if (filled === size) {
+          if (full) yield { bytes: full, last: false };
+          full = piece;
+          piece = new Uint8Array(size);
+          filled = 0;
+        }
+        const count = Math.min(size - filled, value.length - offset);
+        piece.set(value.subarray(offset, offset + count), filled);
+        filled += count;
+        offset += count;
+      }
+    }
+    finished = true;
+    if (full) yield { bytes: full, last: false };
+    yield { bytes: piece.subarray(0, filled), last: true };
+  } finally {
+    // Stop reading if the consumer gave up early
+    if (!finished) await reader.cancel();
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Media to {@link GraffitiLocalMedia.postMediaStream | post}
+ * from a stream rather than a `Blob`.
+ */
+export interface GraffitiLocalPostMediaStream extends Pick<
+  GraffitiMedia,
+  "allowed"
+> {
+  data: ReadableStream<Uint8Array>;
+  /**
+   * The media type of the data, like `image/png`.
+   */
+  type: string;
+}
+
+/**
+ * A range of bytes to read, like `Blob.slice`:
+ * `start` is inclusive, `end` is exclusive and
+ * negative values count back from the end.
+ */
+export interface GraffitiLocalMediaRange {
+  start?: number;
+  end?: number;
+}
+
+/**
+ * Media returned by {@link GraffitiLocalMedia.getMediaStream}.
+ */
+export interface GraffitiLocalMediaStream extends Pick<
+  GraffitiMedia,
+  "actor" | "allowed"
+> {
+  data: ReadableStream<Uint8Array>;
+  type: string;
+  /**
+   * The size of the whole media, in bytes.
+   */
+  size: number;
+  /**
+   * The byte offsets of the streamed range,
+   * `start` inclusive and `end` exclusive.
+   */
+  start: number;
+  end: number;
+}
+
 export class GraffitiLocalMedia {
-  protected db: Pick<Graffiti, "post" | "get" | "delete">;
+  protected db: Pick<
+    GraffitiLocalObjects,
+    "postObject" | "get" | "deleteObject" | "events"
+  >;
+  protected storage: GraffitiLocalStorage;
+  protected quotas: Pick<GraffitiLocalQuotas, "checkMedia"> | undefined;
+  protected encryption: GraffitiLocalEncryption | undefined;
 
-  constructor(db: Pick<Graffiti, "post" | "get" | "delete">) {
+  constructor(
+    db: Pick<
+      GraffitiLocalObjects,
+      "postObject" | "get" | "deleteObject" | "events"
+    >,
+    storage: GraffitiLocalStorage,
+    quotas?: Pick<GraffitiLocalQuotas, "checkMedia">,
+    encryption?: GraffitiLocalEncryption,
+  ) {
     this.db = db;
+    this.storage = storage;
+    this.quotas = quotas;
+    this.encryption = encryption;
   }
 
   postMedia: Graffiti["postMedia"] = async (...args) => {
     const [media, session] = args;
-
-    const dataBase64 = await blobToBase64(media.data);
-    const type = media.data.type;
-
-    const { url } = await this.db.post<typeof MEDIA_OBJECT_SCHEMA>(
-      {
-        value: {
-          dataBase64,
-          type,
-          size: media.data.size,
-        },
-        channels: [],
-        allowed: media.allowed,
-      },
+    this.quotas?.checkMedia(media.data.size);
+    return this.storeMedia(
+      media.data.stream(),
+      media.data.type,
+      media.allowed,
       session,
     );
+  };
 
-    return url;
+  /**
+   * Like {@link postMedia}, but reads the data from a stream
+   * and stores it as it arrives, so it is never held in memory.
+   */
+  postMediaStream = async (
+    media: GraffitiLocalPostMediaStream,
+    session: GraffitiSession,
+  ): Promise<string> => {
+    return this.storeMedia(media.data, media.type, media.allowed, session);
   };
 
-  getMedia: Graffiti["getMedia"] = async (...args) => {
-    const [mediaUrl, accept, session] = args;
+  /**
+   * Stores data a record at a time, encrypting it if it should be,
+   * and then posts an object that references it by hash.
+   */
+  protected async storeMedia(
+    data: ReadableStream<Uint8Array>,
+    type: string,
+    allowed: string[] | null | undefined,
+    session: GraffitiSession,
+  ): Promise<string> {
+    const encrypted = !!this.encryption?.encrypts(allowed);
+    const upload = randomBase64(16);
+    let url: string | undefined;
+    try {
+      const { quotas } = this;
+      let size = 0;
+      // Stop reading as soon as the media is too large
+      const counted = data.pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+          transform(chunk, controller) {
+            size += chunk.byteLength;
+            quotas?.checkMedia(size);
+            controller.enqueue(chunk);
+          },
+        }),
+      );
 
+      const sha256 = await createSha256();
+      let index = 0;
+      for await (const { bytes, last } of pieces(counted, MEDIA_RECORD_BYTES)) {
+        const stored = encrypted
+          ? await this.encryption!.encryptMediaRecord(
+              session.actor,
+              bytes,
+              index++,
+              last,
+            )
+          : bytes;
+        sha256.update(stored);
+        await this.storage.appendMediaUpload(
+          upload,
+          new Blob([stored as BlobPart], encrypted ? {} : { type }),
+        );
+      }
+      const hash = encodeBase64(sha256.digest());
+
+      const object = await this.db.postObject<typeof MEDIA_OBJECT_SCHEMA>(
+        {
+          value: {
+            hash,
+            type,
+            size,
+            ...(encrypted
+              ? { encrypted, recordBytes: MEDIA_RECORD_BYTES }
+              : {}),
+          },
+          channels: [],
+          allowed,
+        },
+        session,
+        { hash, size },
+      );
+      url = object.url;
+      await this.storage.retainMediaUpload(hash, url, upload);
+      this.db.events.dispatch("postMedia", object);
+    } catch (error) {
+      await this.storage.discardMediaUpload(upload);
+      if (url) await this.db.deleteObject(url, session);
+      throw error;
+    }
+    return url;
+  }
+
+  /**
+   * Reads a media object and checks it against `accept`
+   * before loading any of its data.
+   */
+  protected async readMedia(
+    mediaUrl: string,
+    accept: GraffitiMediaAccept | undefined,
+    session: GraffitiSession | null | undefined,
+  ) {
     const object = await this.db.get<typeof MEDIA_OBJECT_SCHEMA>(
       mediaUrl,
       MEDIA_OBJECT_SCHEMA,
       session,
     );
 
-    const { dataBase64, type, size } = object.value;
+    const { dataBase64, type, size, encrypted, recordBytes } = object.value;
+    // Only the stored object's marker says which media it refers
+    // to, since anyone can post a value that looks like media
+    const hash = (await this.storage.get(object.url))?.media?.hash;
 
     if (accept?.maxBytes && size > accept.maxBytes) {
       throw new GraffitiErrorTooLarge("File size exceeds limit");
@@ -73,13 +289,153 @@ export class GraffitiLocalMedia {
       }
     }
 
-    const data = await base64ToBlob(dataBase64);
-    if (data.size !== size || data.type !== type) {
-      throw new Error("Invalid data");
+    const stored = async () => {
+      if (hash !== undefined) {
+        const data = await this.storage.getMedia(hash);
+        if (!data) {
+          throw new Error("Media data is missing");
+        }
+        return data;
+      } else if (dataBase64 !== undefined) {
+        const data = await base64ToBlob(dataBase64);
+        if (data.type !== type) {
+          throw new Error("Invalid data");
+        }
+        return data;
+      } else {
+        throw new Error("Invalid data");
+      }
+    };
+
+    // Only decrypts the records that overlap the range
+    const decryptRecords = (
+      encryption: GraffitiLocalEncryption,
+      data: Blob,
+      recordBytes: number,
+      start: number,
+      end: number,
+    ) => {
+      const count = Math.max(Math.ceil(size / recordBytes), 1);
+      const storedRecordBytes = recordBytes + MEDIA_RECORD_OVERHEAD;
+      if (data.size !== size + count * MEDIA_RECORD_OVERHEAD) {
+        throw new Error("Invalid data");
+      }
+      let index = Math.floor(start / recordBytes);
+      return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          const offset = index * recordBytes;
+          if (offset >= end) {
+            controller.close();
+            return;
+          }
+          const record = await data
+            .slice(index * storedRecordBytes, (index + 1) * storedRecordBytes)
+            .arrayBuffer();
+          const bytes = await encryption.decryptMediaRecord(
+            object.actor,
+            new Uint8Array(record),
+            index,
+            index === count - 1,
+          );
+          controller.enqueue(
+            bytes.subarray(Math.max(start - offset, 0), end - offset),
+          );
+          index++;
+        },
+      });
+    };
+
+    /**
+     * Streams the bytes from `start` to `end`, only reading
+     * and decrypting the records of encrypted media that hold them.
+     */
+    const read = async (
+      start: number,
+      end: number,
+    ): Promise<ReadableStream<Uint8Array>> => {
+      const data = await stored();
+      if (encrypted) {
+        const { encryption } = this;
+        if (!encryption) {
+          throw new GraffitiLocalErrorDecryption(
+            "The media is encrypted, but no encryption is configured",
+          );
+        }
+        if (!recordBytes) {
+          throw new Error("Invalid data");
+        }
+        return decryptRecords(encryption, data, recordBytes, start, end);
+      }
+      if (data.size !== size) {
+        throw new Error("Invalid data");
+      }
+      return data.slice(start, end).stream();
+    };
+
+    const load = async () => {
+      if (encrypted) {
+        const data = await new Response(await read(0, size)).blob();
+        return data.slice(0, data.size, type);
+      }
+      const data = await stored();
+      if (data.size !== size) {
+        throw new Error("Invalid data");
+      }
+      return data.slice(0, size, type);
+    };
+
+    return { object, type, size, load, read };
+  }
+
+  getMedia: Graffiti["getMedia"] = async (...args) => {
+    const [mediaUrl, accept, session] = args;
+
+    const { object, load } = await this.readMedia(mediaUrl, accept, session);
+
+    return {
+      data: await load(),
+      actor: object.actor,
+      allowed: object.allowed,
+    };
+  };
+
+  /**
+   * Like {@link getMedia}, but returns the data as a stream
+   * and optionally only a range of its bytes, so that
+   * large media can be rendered progressively or seeked.
+   *
+   * @throws RangeError if the range is empty or out of bounds.
+   */
+  getMediaStream = async (
+    mediaUrl: string,
+    accept: GraffitiMediaAccept,
+    session?: GraffitiSession | null,
+    range?: GraffitiLocalMediaRange,
+  ): Promise<GraffitiLocalMediaStream> => {
+    const { object, type, size, read } = await this.readMedia(
+      mediaUrl,
+      accept,
+      session,
+    );
+
+    const resolve = (offset: number | undefined, fallback: number) =>
+      offset === undefined
+        ? fallback
+        : offset < 0
+          ? Math.max(size + offset, 0)
+          : Math.min(offset, size);
+    const start = resolve(range?.start, 0);
+    const end = resolve(range?.end, size);
+    if (range && start >= end) {
+      throw new RangeError(`Range not satisfiable for ${size} bytes`);
     }
 
     return {
-      data,
+      data: await read(start, end),
+      type,
+      size,
+      start,
+      end,
       actor: object.actor,
       allowed: object.allowed,
     };
@@ -88,6 +444,8 @@ export class GraffitiLocalMedia {
   deleteMedia: Graffiti["deleteMedia"] = async (...args) => {
     const [mediaUrl, session] = args;
 
-    await this.db.delete(mediaUrl, session);
+    // Deleting the object releases the media
+    const object = await this.db.deleteObject(mediaUrl, session);
+    this.db.events.dispatch("deleteMedia", object);
   };
 }
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import PouchDB from "pouchdb";
+import type {
+  GraffitiLocalMigration,
+  GraffitiLocalMigrationProgress,
+} from "./migrations";
+import { blobToBase64, encodeObjectUrl, randomBase64 } from "./utilities";
+import { tempDbName, tempPouchDBStorages } from "./test-utilities";
+
+const actor = "did:example:someone";
+const createStorage = tempPouchDBStorages("migrations");
+
+describe("migrations", () => {
+  it("brings objects and views from earlier versions up to date", async () => {
+    const name = tempDbName("migrations");
+    const legacy = new PouchDB(name);
+    const data = new Blob([randomBase64(64)], { type: "text/plain" });
+    const mediaUrl = encodeObjectUrl(actor, randomBase64());
+    const tombstoneUrl = encodeObjectUrl(actor, randomBase64());
+    await legacy.bulkDocs([
+      {
+        _id: mediaUrl,
+        value: {
+          dataBase64: await blobToBase64(data),
+          type: data.type,
+          size: data.size,
+        },
+        channels: [],
+        lastModified: 1,
+        tombstone: false,
+      },
+      {
+        _id: tombstoneUrl,
+        value: {},
+        channels: [],
+        lastModified: 2,
+        tombstone: true,
+      },
+      // A view whose map function has since changed
+      {
+        _id: "_design/tombstones",
+        views: { tombstonesByDeletedAt: { map: "function () {}" } },
+      },
+    ]);
+    await legacy.close();
+
+    const progress: GraffitiLocalMigrationProgress[] = [];
+    const storage = createStorage(
+      { name },
+      { onMigrationProgress: (p) => progress.push(p), now: () => 1234 },
+    );
+
+    const media = await storage.get(mediaUrl);
+    const { hash, ...value } = media?.value as { hash: string };
+    expect(value).toEqual({ type: data.type, size: data.size });
+    expect(await (await storage.getMedia(hash))?.text()).toBe(
+      await data.text(),
+    );
+
+    const tombstones = await storage.queryTombstones(1235);
+    expect(tombstones.map(({ url }) => url)).toEqual([tombstoneUrl]);
+    expect(tombstones[0].deletedAt).toBe(1234);
+
+    expect(
+      progress.filter(({ done }) => done).map(({ version }) => version),
+    ).toEqual([1, 2]);
+  });
+
+  it("resumes an interrupted migration from its checkpoint", async () => {
+    const name = tempDbName("migrations");
+    const legacy = new PouchDB(name);
+    const urls = Array.from({ length: 150 }, () =>
+      encodeObjectUrl(actor, randomBase64()),
+    );
+    await legacy.bulkDocs(
+      urls.map((url, i) => ({
+        _id: url,
+        value: {},
+        channels: [],
+        lastModified: i,
+        tombstone: false,
+      })),
+    );
+    await legacy.close();
+
+    const seen = new Map<string, number>();
+    let interrupted = false;
+    const migration: GraffitiLocalMigration = {
+      version: 1,
+      description: "Count objects",
+      async migrate(object) {
+        if (object.url === urls[120] && !interrupted) {
+          interrupted = true;
+          throw new Error("Interrupted");
+        }
+        if ("counted" in object.value) return;
+        seen.set(object.url, (seen.get(object.url) ?? 0) + 1);
+        return { ...object, value: { counted: true } };
+      },
+    };
+    const storage = createStorage({ name }, { migrations: [migration] });
+
+    await expect(storage.db).rejects.toThrow("Interrupted");
+    expect(seen.size).toBe(120);
+
+    // Opening again picks up after the first batch
+    await storage.db;
+    await expect(storage.get(urls[0])).resolves.toMatchObject({
+      value: { counted: true },
+    });
+    expect(seen.size).toBe(150);
+    expect(Array.from(seen.values()).every((count) => count === 1)).toBe(true);
+  });
+});
@@ -0,0 +1,107 @@
+import type {
+  GraffitiLocalStorage,
+  GraffitiLocalStoredObject,
+} from "./storage.js";
+import { base64ToBlob, sha256Base64 } from "./utilities.js";
+
+/**
+ * The media operations a {@link GraffitiLocalMigration} may use.
+ */
+export type GraffitiLocalMigrationMedia = Pick<
+  GraffitiLocalStorage,
+  "retainMedia" | "getMedia" | "releaseMedia"
+>;
+
+/**
+ * A change to the format of stored objects, applied to
+ * each object in the database when it is opened.
+ *
+ * Migrations are resumed from a checkpoint if they are
+ * interrupted, and objects written while they run by other
+ * instances or by replication are passed through them too,
+ * so `migrate` may see the same object more than once.
+ */
+export interface GraffitiLocalMigration {
+  /**
+   * Migrations run in ascending order of version, and the
+   * database records the version of the last one to finish.
+   */
+  version: number;
+  description: string;
+  /**
+   * Returns the object rewritten to the new format, or `undefined`
+   * if it needs no change, including if it was already migrated.
+   * `now` returns the current time in milliseconds,
+   * from the storage's `now` option.
+   */
+  migrate(
+    object: GraffitiLocalStoredObject,
+    media: GraffitiLocalMigrationMedia,
+    now: () => number,
+  ): Promise<GraffitiLocalStoredObject | undefined>;
+}
+
+/**
+ * Reported as a {@link GraffitiLocalMigration} works through the database.
+ */
+export interface GraffitiLocalMigrationProgress {
+  version: number;
+  description: string;
+  /**
+   * How many objects have been read so far, which may exceed
+   * `total` as rewritten objects are read again.
+   */
+  processed: number;
+  /**
+   * Roughly how many objects there are to read.
+   */
+  total: number;
+  done: boolean;
+}
+
+/**
+ * The migrations for the formats written by
+ * earlier versions of this package.
+ */
+export const GRAFFITI_LOCAL_MIGRATIONS: GraffitiLocalMigration[] = [
+  {
+    version: 1,
+    description: "Record when tombstones were deleted",
+    async migrate(object, media, now) {
+      // Tombstones from before `deletedAt` would never
+      // be purged, so start their retention window now
+      if (!object.tombstone || object.deletedAt !== undefined) return;
+      return { ...object, deletedAt: now() };
+    },
+  },
+  {
+    version: 2,
+    description: "Move media data into content-addressed storage",
+    async migrate(object, media) {
+      const value = object.value as {
+        dataBase64?: unknown;
+        type?: unknown;
+        size?: unknown;
+      };
+      // Signatures cover the value, so signed objects
+      // must keep it as it is
+      if (
+        object.tombstone ||
+        object.signature !== undefined ||
+        typeof value.dataBase64 !== "string" ||
+        typeof value.type !== "string" ||
+        typeof value.size !== "number"
+      ) {
+        return;
+      }
+      const data = await base64ToBlob(value.dataBase64);
+      const hash = await sha256Base64(data);
+      await media.retainMedia(hash, object.url, data);
+      return {
+        ...object,
+        value: { hash, type: value.type, size: value.size },
+        media: { hash, size: value.size },
+      };
+    },
+  },
+];
@@ -1,9 +1,12 @@
 import type {
   Graffiti,
+  GraffitiObject,
   GraffitiObjectBase,
+  GraffitiObjectUrl,
   JSONSchema,
   GraffitiSession,
   GraffitiObjectStreamEntry,
+  GraffitiObjectStreamError,
   GraffitiObjectStream,
   GraffitiObjectStreamTombstone,
 } from "@graffiti-garden/api";
@@ -15,16 +18,72 @@ import {
   maskGraffitiObject,
   isActorAllowedGraffitiObject,
   compileGraffitiObjectSchema,
-  GraffitiErrorCursorExpired,
 } from "@graffiti-garden/api";
 import { randomBase64, decodeObjectUrl, encodeObjectUrl } from "./utilities.js";
+import {
+  GraffitiLocalCursors,
+  type ContinueDiscoverParams,
+  type GraffitiLocalDiscoverOrder,
+} from "./cursors.js";
+import {
+  GraffitiLocalClock,
+  lastModifiedKey,
+  lastModifiedTime,
+} from "./clock.js";
+import {
+  GraffitiLocalKeys,
+  isDidKey,
+  type GraffitiLocalKeySeed,
+} from "./keys.js";
+import {
+  GraffitiLocalQuotas,
+  type GraffitiLocalQuotaOptions,
+} from "./quotas.js";
+import {
+  GraffitiLocalEncryption,
+  GraffitiLocalErrorDecryption,
+  isEncryptedValue,
+  type GraffitiLocalEncryptionOptions,
+} from "./encryption.js";
+import {
+  GraffitiLocalBroadcast,
+  type GraffitiLocalBroadcastEvent,
+} from "./broadcast.js";
+import {
+  GraffitiLocalObjectEvents,
+  type GraffitiLocalObjectEventOptions,
+} from "./events.js";
+import { groupUrls, groupValue } from "./groups.js";
+import type { GraffitiLocalSessionStore } from "./session-store.js";
+import type { GraffitiLocalLoginPrompt } from "./identity.js";
+import {
+  compareByLastModified,
+  searchTerms,
+  type GraffitiLocalChannelPosition,
+  type GraffitiLocalChannelQuery,
+  type GraffitiLocalStorage,
+  type GraffitiLocalStoredObject,
+  type GraffitiLocalValueFilter,
+  type GraffitiObjectData,
+} from "./storage.js";
+import { GraffitiLocalPouchDBStorage } from "./storage-pouchdb.js";
+
+export type { GraffitiObjectData, GraffitiLocalDiscoverOrder };
 
 /**
  * Constructor options for the GraffitiPoubchDB class.
  */
 export interface GraffitiLocalOptions {
   /**
-   * Options to pass to the PouchDB constructor.
+   * Where to store objects and cursors. Defaults to a
+   * {@link GraffitiLocalPouchDBStorage} configured with
+   * {@link pouchDBOptions}. Use a {@link GraffitiLocalMemoryStorage}
+   * to keep everything in memory without loading PouchDB.
+   */
+  storage?: GraffitiLocalStorage;
+  /**
+   * Options to pass to the PouchDB constructor,
+   * if {@link storage} is not provided.
    * Defaults to `{ name: "graffitiDb" }`.
    *
    * See the [PouchDB documentation](https://pouchdb.com/api.html#create_database)
@@ -36,110 +95,448 @@ export interface GraffitiLocalOptions {
    * A basic form of rate limiting. Defaults to 2 seconds.
    */
   continueBuffer?: number;
+  /**
+   * How long (in milliseconds) a deleted object is kept as a
+   * tombstone before it is permanently purged from the database.
+   * Cursors older than this will expire, since they could otherwise
+   * miss deletions. Defaults to 1 week.
+   */
+  tombstoneRetention?: number;
+  /**
+   * How often (in milliseconds) to purge expired tombstones
+   * in the background. Set to 0 to disable background purging.
+   * Defaults to 1 hour.
+   */
+  purgeInterval?: number;
+  /**
+   * Called with errors from background work, like purging,
+   * that has no caller to throw them to. Otherwise they are ignored.
+   */
+  onError?: (error: unknown) => void;
+  /**
+   * How long (in milliseconds) a discover cursor can be used
+   * after it is created. Cursors can only be used once and
+   * never outlive {@link tombstoneRetention}.
+   * Defaults to 1 day.
+   */
+  cursorLifetime?: number;
+  /**
+   * How actors are derived from handles on login.
+   * With `"local"`, the default, any handle becomes a
+   * `did:local` actor that anyone can claim.
+   * With `"did:key"`, each handle gets an Ed25519 key pair and a
+   * `did:key` actor, and that actor's objects are signed.
+   *
+   * Objects by `did:key` actors are verified in either mode,
+   * and objects that fail verification are hidden.
+   */
+  identity?: "local" | "did:key";
+  /**
+   * Where logged in handles and `did:key` key pairs are kept.
+   * Defaults to `localStorage` in the browser and memory elsewhere.
+   * Use a {@link GraffitiLocalFileSessionStore} to persist
+   * sessions in node.js.
+   */
+  sessionStore?: GraffitiLocalSessionStore;
+  /**
+   * Asks the user to choose a handle on login.
+   * Defaults to `window.prompt` in the browser and elsewhere
+   * to accepting the handle of the actor passed to `login`.
+   */
+  loginPrompt?: GraffitiLocalLoginPrompt;
+  /**
+   * Whether to reload the page after logging in, rather than
+   * dispatching the login event directly. Defaults to `true`
+   * in the browser and `false` elsewhere.
+   */
+  reloadOnLogin?: boolean;
+  /**
+   * How many earlier revisions of each object to keep, so they can
+   * be read with {@link GraffitiLocalObjects.getRevision}.
+   * Set to 0 to keep none. Defaults to 10.
+   */
+  revisionLimit?: number;
+  /**
+   * Dotted paths to fields in object values, like `value.type`
+   * or `value.inReplyTo`, to index. When a discover schema requires
+   * one of these fields and pins it with `const` or `enum`,
+   * only matching objects are read from storage.
+   */
+  indexes?: string[];
+  /**
+   * How many objects discover reads from storage at a time.
+   * Larger pages mean fewer reads but more memory.
+   * Defaults to 100.
+   */
+  discoverPageSize?: number;
+  /**
+   * Limits on the size of what each actor posts, how much they
+   * can store and how often they can post. Unlimited by default.
+   */
+  quotas?: GraffitiLocalQuotaOptions;
+  /**
+   * Encrypt object values and media at rest, for when the
+   * database is a remote CouchDB whose operator should not be
+   * able to read them. Off by default.
+   */
+  encryption?: GraffitiLocalEncryptionOptions;
+  /**
+   * The name of a `BroadcastChannel` over which to share logins,
+   * logouts and writes with other instances using the same
+   * database, such as in other browser tabs, or `false` to not
+   * share them. Defaults to a name derived from
+   * {@link pouchDBOptions} in the browser, if no {@link storage}
+   * is given, and to `false` otherwise.
+   */
+  broadcastChannel?: string | false;
+  /**
+   * Returns the current time in milliseconds, from which objects'
+   * `lastModified` and deletion times are derived and against
+   * which tombstones and cursors expire. Defaults to `Date.now`.
+   * Pass a fake clock to make timestamps reproducible in tests.
+   */
+  now?: () => number;
+  /**
+   * Returns a new ID for each posted object, which becomes
+   * the end of its URL. IDs must never repeat for an actor,
+   * including across instances that share storage.
+   * Defaults to 32 random bytes in base64.
+   */
+  generateId?: () => string;
+  /**
+   * Derives each handle's `did:key` key pair from a seed rather
+   * than generating it at random, so that actors and signatures
+   * are reproducible in tests. Never use predictable seeds otherwise.
+   */
+  keySeed?: GraffitiLocalKeySeed;
+  /**
+   * Identifies this instance in `lastModified` timestamps, to
+   * order objects written at the same time elsewhere.
+   * Defaults to a random string.
+   */
+  clockNode?: string;
+}
+
+const DEFAULT_TOMBSTONE_RETENTION = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_PURGE_INTERVAL = 60 * 60 * 1000;
+const DEFAULT_CURSOR_LIFETIME = 24 * 60 * 60 * 1000;
+const DEFAULT_REVISION_LIMIT = 10;
+const DEFAULT_DISCOVER_PAGE_SIZE = 100;
+
+/**
+ * Options for {@link GraffitiLocalObjects.discoverPage}
+ * and {@link GraffitiLocalObjects.discoverOrdered}.
+ */
+export interface GraffitiLocalDiscoverOptions {
+  /**
+   * The most objects to yield before returning
+   * a cursor that continues with the next page.
+   */
+  limit?: number;
+  /**
+   * Merge the channels into one stream ordered by `lastModified`
+   * rather than reading them one after another. Once continuations
+   * have read every channel, they yield the objects that changed
+   * since in the order they changed, whatever the `order`.
+   */
+  order?: GraffitiLocalDiscoverOrder;
 }
 
-type GraffitiObjectData = {
+/**
+ * A revision of an object, as listed by
+ * {@link GraffitiLocalObjects.revisions}.
+ */
+export interface GraffitiLocalRevision {
+  rev: string;
+  lastModified: string | number;
   tombstone: boolean;
-  value: {};
-  channels: string[];
-  allowed?: string[] | null;
-  lastModified: number;
-};
+}
 
-type ContinueDiscoverParams = {
-  lastDiscovered: number;
-  ifModifiedSince: number;
-};
+/**
+ * Options for {@link GraffitiLocalObjects.search}.
+ */
+export interface GraffitiLocalSearchOptions {
+  /**
+   * The most matches to return.
+   */
+  limit?: number;
+}
+
+/**
+ * A match returned by {@link GraffitiLocalObjects.search}.
+ */
+export interface GraffitiLocalSearchResult {
+  object: GraffitiObjectBase;
+  /**
+   * The number of the query's words the object contains, plus a
+   * fraction that grows with how often they occur. Higher is better.
+   */
+  score: number;
+}
+
+type PrimitiveValue = string | number | boolean | null;
+
+function isPrimitive(value: unknown): value is PrimitiveValue {
+  return (
+    value === null || ["string", "number", "boolean"].includes(typeof value)
+  );
+}
+
+/**
+ * Returns the values that a schema allows at a dotted `path`,
+ * if it requires the field and pins it with `const` or `enum`
+ * to primitive values, so that objects without one of those
+ * values can never match.
+ */
+function pinnedValues(
+  schema: JSONSchema,
+  path: string,
+): PrimitiveValue[] | undefined {
+  type SchemaNode = {
+    properties?: Record<string, SchemaNode | boolean>;
+    required?: string[];
+    const?: unknown;
+    enum?: unknown[];
+  };
+  const [root, ...keys] = path.split(".");
+  let current = (schema as SchemaNode).properties?.[root];
+  for (const key of keys) {
+    if (!current || typeof current !== "object") return;
+    if (!current.required?.includes(key)) return;
+    current = current.properties?.[key];
+  }
+  if (!current || typeof current !== "object") return;
+
+  const values =
+    "const" in current
+      ? [current.const]
+      : Array.isArray(current.enum)
+        ? current.enum
+        : undefined;
+  return values?.every(isPrimitive) ? values : undefined;
+}
+
+/**
+ * A stream of objects and tombstones that stays open,
+ * as returned by {@link GraffitiLocalObjects.discoverLive}.
+ */
+export type GraffitiLocalLiveStream<Schema extends JSONSchema> = AsyncGenerator<
+  GraffitiObjectStreamEntry<Schema> | GraffitiObjectStreamTombstone,
+  void
+>;
+
+/**
+ * Buffers a storage change feed into an async iterator,
+ * along with any changes broadcast by other instances.
+ * The feed starts immediately so no changes are lost
+ * before iteration begins, and it is cancelled when the
+ * returned `cancel` function is called.
+ */
+function watchChanges(
+  storage: GraffitiLocalStorage,
+  since: string | number,
+  broadcast?: GraffitiLocalBroadcast,
+): {
+  changes: AsyncGenerator<GraffitiLocalStoredObject, void>;
+  cancel: () => void;
+} {
+  const queue: GraffitiLocalStoredObject[] = [];
+  let error: unknown = undefined;
+  let wake: (() => void) | undefined;
+  const notify = () => {
+    wake?.();
+    wake = undefined;
+  };
+  const onChange = (object: GraffitiLocalStoredObject) => {
+    queue.push(object);
+    notify();
+  };
+  const watcher = storage.watch(since, onChange, (e) => {
+    error = e ?? new Error("The change feed failed");
+    notify();
+  });
+  const onBroadcast = (event: Event) =>
+    onChange((event as GraffitiLocalBroadcastEvent<"change">).detail.object);
+  broadcast?.events.addEventListener("change", onBroadcast);
+  const cancel = () => {
+    watcher.cancel();
+    broadcast?.events.removeEventListener("change", onBroadcast);
+  };
+
+  const changes = (async function* () {
+    while (true) {
+      const object = queue.shift();
+      if (object) {
+        yield object;
+      } else if (error) {
+        throw error;
+      } else {
+        await new Promise<void>((resolve) => (wake = resolve));
+      }
+    }
+  })();
+
+  return { changes, cancel };
+}
 
 /**
  * An implementation of only the database operations of the
  * GraffitiAPI without synchronization or session management.
  */
 export class GraffitiLocalObjects {
-  protected db_: Promise<PouchDB.Database<GraffitiObjectData>> | undefined;
+  readonly storage: GraffitiLocalStorage;
   protected readonly options: GraffitiLocalOptions;
+  protected readonly cursors: GraffitiLocalCursors;
+  readonly clock: GraffitiLocalClock;
+  readonly keys: GraffitiLocalKeys;
+  readonly quotas: GraffitiLocalQuotas;
+  readonly encryption: GraffitiLocalEncryption | undefined;
+  /**
+   * Shares writes with other instances using the same database.
+   * See {@link GraffitiLocalOptions.broadcastChannel}.
+   */
+  readonly broadcast: GraffitiLocalBroadcast | undefined;
+  /**
+   * Dispatches objects as they are posted and deleted.
+   * See {@link objectEvents}.
+   */
+  readonly events = new GraffitiLocalObjectEvents((object, session) =>
+    this.isAllowed(object, session),
+  );
+  protected clockSynced: Promise<void> | undefined;
 
-  get db() {
-    if (!this.db_) {
-      this.db_ = (async () => {
-        const { default: PouchDB } = await import("pouchdb");
-        const pouchDbOptions = {
-          name: "graffitiDb",
-          ...this.options.pouchDBOptions,
-        };
-        const db = new PouchDB<GraffitiObjectData>(
-          pouchDbOptions.name,
-          pouchDbOptions,
-        );
-        await db
-          //@ts-ignore
-          .put({
-            _id: "_design/indexes",
-            views: {
-              objectsPerChannelAndLastModified: {
-                map: function (object: GraffitiObjectData) {
-                  const paddedLastModified = object.lastModified
-                    .toString()
-                    .padStart(15, "0");
-                  object.channels.forEach(function (channel) {
-                    const id =
-                      encodeURIComponent(channel) + "/" + paddedLastModified;
-                    //@ts-ignore
-                    emit(id);
-                  });
-                }.toString(),
-              },
-            },
-          })
-          //@ts-ignore
-          .catch((error) => {
-            if (
-              error &&
-              typeof error === "object" &&
-              "name" in error &&
-              error.name === "conflict"
-            ) {
-              // Design document already exists
-              return;
-            } else {
-              throw error;
-            }
-          });
-        return db;
-      })();
+  /**
+   * Returns a new timestamp from the clock, after making sure
+   * the clock is ahead of anything already in storage.
+   */
+  protected async now() {
+    if (!this.clockSynced) {
+      this.clockSynced = this.storage.latest().then((latest) => {
+        if (latest) this.clock.receive(latest.lastModified);
+      });
     }
-    return this.db_;
+    await this.clockSynced;
+    return this.clock.now();
+  }
+
+  /**
+   * Returns the current wall-clock time in milliseconds.
+   * See {@link GraffitiLocalOptions.now}.
+   */
+  protected currentTime() {
+    return (this.options.now ?? Date.now)();
   }
 
-  protected async getOperationClock() {
-    return Number((await (await this.db).info()).update_seq);
+  get revisionLimit() {
+    return this.options.revisionLimit ?? DEFAULT_REVISION_LIMIT;
   }
 
+  protected get tombstoneRetention() {
+    return this.options.tombstoneRetention ?? DEFAULT_TOMBSTONE_RETENTION;
+  }
+
+  /**
+   * Permanently removes all objects that have been
+   * deleted for longer than the tombstone retention window
+   * and then compacts the database so their contents,
+   * including media data, are no longer stored.
+   *
+   * This runs periodically in the background
+   * (see {@link GraffitiLocalOptions.purgeInterval})
+   * but can also be called on demand.
+   *
+   * @returns The number of objects that were purged.
+   */
+  purgeTombstones = async (): Promise<number> => {
+    const expired = await this.storage.queryTombstones(
+      this.currentTime() - this.tombstoneRetention,
+    );
+    // Media is usually released when it is deleted, but
+    // tombstones can also arrive through replication
+    for (const { url, media } of expired) {
+      if (media) await this.storage.releaseMedia(media.hash, url);
+    }
+    return this.storage.purge(
+      expired.flatMap(({ url, rev }) => (rev ? [{ url, rev }] : [])),
+    );
+  };
+
   constructor(options?: GraffitiLocalOptions) {
     this.options = options ?? {};
-  }
+    this.storage =
+      this.options.storage ??
+      new GraffitiLocalPouchDBStorage(this.options.pouchDBOptions, {
+        now: this.options.now,
+      });
+    this.cursors = new GraffitiLocalCursors(this.storage, this.options.now);
+    this.clock = new GraffitiLocalClock(
+      this.options.clockNode,
+      this.options.now,
+    );
+    this.keys = new GraffitiLocalKeys(
+      this.options.sessionStore,
+      this.options.keySeed,
+    );
+    this.quotas = new GraffitiLocalQuotas(
+      this.storage,
+      this.options.quotas,
+      this.options.now,
+    );
+    this.encryption =
+      this.options.encryption &&
+      new GraffitiLocalEncryption(this.options.encryption);
 
-  get: Graffiti["get"] = async (...args) => {
-    const [urlObject, schema, session] = args;
-    const url = unpackObjectUrl(urlObject);
+    const broadcastChannel =
+      this.options.broadcastChannel ??
+      (typeof window !== "undefined" &&
+        !this.options.storage &&
+        `graffiti-local:${this.options.pouchDBOptions?.name ?? "graffitiDb"}`);
+    if (broadcastChannel !== false) {
+      this.broadcast = new GraffitiLocalBroadcast(broadcastChannel);
+      // Keep timestamps ahead of writes in other instances
+      this.broadcast.events.addEventListener("change", (event) => {
+        const { object } = (event as GraffitiLocalBroadcastEvent<"change">)
+          .detail;
+        this.clock.receive(object.lastModified);
+      });
+    }
 
-    let doc: GraffitiObjectData;
-    try {
-      doc = await (await this.db).get(url);
-    } catch (error) {
-      throw new GraffitiErrorNotFound(
-        "The object you are trying to get either does not exist or you are not allowed to see it",
-      );
+    for (const path of this.options.indexes ?? []) {
+      if (!/^value(\.[^./]+)+$/.test(path)) {
+        throw new Error(`Index paths must look like value.field, not ${path}`);
+      }
     }
 
-    if (doc.tombstone) {
-      throw new GraffitiErrorNotFound(
-        "The object you are trying to get either does not exist or you are not allowed to see it",
-      );
+    const purgeInterval = this.options.purgeInterval ?? DEFAULT_PURGE_INTERVAL;
+    if (purgeInterval > 0) {
+      const interval = setInterval(() => {
+        const onError = (error: unknown) => this.options.onError?.(error);
+        this.purgeTombstones().catch(onError);
+        this.cursors.purgeExpired().catch(onError);
+      }, purgeInterval);
+      // Don't keep Node.js processes alive just to purge
+      if (typeof interval === "object" && "unref" in interval) {
+        interval.unref();
+      }
     }
+  }
 
+  /**
+   * Returns a stored document as the session would see it,
+   * with the allowed list and channels masked unless the
+   * session is the owner, or `undefined` if it is a tombstone,
+   * its signature is invalid or the session is not allowed to see it.
+   */
+  protected async visibleObject(
+    doc: GraffitiLocalStoredObject,
+    session?: GraffitiSession | null,
+  ): Promise<GraffitiObjectBase | undefined> {
+    if (doc.tombstone) return;
+
+    const { url, value, channels, allowed } = doc;
     const { actor } = decodeObjectUrl(url);
-    const { value, channels, allowed } = doc;
+    if (isDidKey(actor) && !(await this.keys.verify(actor, doc))) return;
+
     const object: GraffitiObjectBase = {
       value,
       channels,
@@ -147,17 +544,92 @@ export class GraffitiLocalObjects {
       url,
       actor,
     };
+    if (!(await this.isAllowed(object, session))) return;
+    object.value = await this.decryptValue(doc);
+
+    return maskGraffitiObject(object, [], session?.actor);
+  }
+
+  /**
+   * Whether the session can see an object, like
+   * `isActorAllowedGraffitiObject` but also allowing the
+   * members of any {@link GraffitiLocalGroups | groups}
+   * in its allowed list. Members are cached in `groups`.
+   */
+  protected async isAllowed(
+    object: GraffitiObjectBase,
+    session?: GraffitiSession | null,
+    groups: Map<string, Promise<string[]>> = new Map(),
+  ): Promise<boolean> {
+    if (isActorAllowedGraffitiObject(object, session)) return true;
+    if (!session) return false;
+    for (const url of groupUrls(object)) {
+      let members = groups.get(url);
+      if (!members) {
+        members = this.groupMembers(url);
+        groups.set(url, members);
+      }
+      if ((await members).includes(session.actor)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Returns the members of a group, or none if it
+   * does not exist, is deleted or is not a group.
+   */
+  protected async groupMembers(url: string): Promise<string[]> {
+    const doc = await this.storage.get(url);
+    if (!doc || doc.tombstone) return [];
+    const { actor } = decodeObjectUrl(url);
+    if (isDidKey(actor) && !(await this.keys.verify(actor, doc))) return [];
+    try {
+      return groupValue(await this.decryptValue(doc))?.members ?? [];
+    } catch (error) {
+      if (!(error instanceof GraffitiLocalErrorDecryption)) throw error;
+      return [];
+    }
+  }
 
-    if (!isActorAllowedGraffitiObject(object, session)) {
+  /**
+   * Returns a stored object's value, decrypting it if it is encrypted.
+   * Decrypted values are cached in `values`, if given.
+   *
+   * @throws {@link GraffitiLocalErrorDecryption} if it can't be decrypted.
+   */
+  protected async decryptValue(
+    doc: GraffitiLocalStoredObject,
+    values?: Map<GraffitiLocalStoredObject, Promise<{}>>,
+  ): Promise<{}> {
+    if (this.encryption) {
+      let value = values?.get(doc);
+      if (!value) {
+        value = this.encryption.decryptValue(doc);
+        values?.set(doc, value);
+      }
+      return value;
+    }
+    if (isEncryptedValue(doc.value)) {
+      throw new GraffitiLocalErrorDecryption(
+        "The object is encrypted, but no encryption is configured",
+      );
+    }
+    return doc.value;
+  }
+
+  get: Graffiti["get"] = async (...args) => {
+    const [urlObject, schema, session] = args;
+    const url = unpackObjectUrl(urlObject);
+
+    const doc = await this.storage.get(url);
+    if (doc) this.clock.receive(doc.lastModified);
+    const masked = doc && (await this.visibleObject(doc, session));
+    if (!masked) {
       throw new GraffitiErrorNotFound(
         "The object you are trying to get either does not exist or you are not allowed to see it",
       );
     }
 
-    // Mask out the allowed list and channels
-    // if the user is not the owner
-    const masked = maskGraffitiObject(object, [], session?.actor);
-
     const validate = await compileGraffitiObjectSchema(schema);
     if (!validate(masked)) {
       throw new GraffitiErrorSchemaMismatch();
@@ -165,7 +637,97 @@ export class GraffitiLocalObjects {
     return masked;
   };
 
-  delete: Graffiti["delete"] = async (...args) => {
+  /**
+   * Returns the stored revisions of an object, oldest first:
+   * the current revision and up to {@link GraffitiLocalOptions.revisionLimit}
+   * earlier ones, including tombstones.
+   * Only revisions the session would be allowed to {@link get} are listed.
+   *
+   * @throws {@link GraffitiErrorNotFound} if no revisions are visible.
+   */
+  revisions = async (
+    url: string | GraffitiObjectUrl,
+    session?: GraffitiSession | null,
+  ): Promise<GraffitiLocalRevision[]> => {
+    const docs = await this.revisionDocs(unpackObjectUrl(url));
+
+    const revisions: GraffitiLocalRevision[] = [];
+    for (const doc of docs) {
+      // Tombstones are visible to whoever could see what they deleted
+      const visible = await this.visibleObject(
+        { ...doc, tombstone: false },
+        session,
+      );
+      if (visible && doc.rev) {
+        revisions.push({
+          rev: doc.rev,
+          lastModified: doc.lastModified,
+          tombstone: doc.tombstone,
+        });
+      }
+    }
+    if (!revisions.length) {
+      throw new GraffitiErrorNotFound(
+        "The object you are trying to get either does not exist or you are not allowed to see it",
+      );
+    }
+    return revisions;
+  };
+
+  /**
+   * Like {@link get}, but returns an earlier revision of an object:
+   * either a specific revision listed by {@link revisions} or the
+   * revision that was current `asOf` a wall-clock time in milliseconds.
+   *
+   * @throws {@link GraffitiErrorNotFound} if the revision is not stored,
+   * is a tombstone or the session is not allowed to see it.
+   */
+  getRevision = async <Schema extends JSONSchema>(
+    url: string | GraffitiObjectUrl,
+    revision: { rev: string } | { asOf: number },
+    schema: Schema,
+    session?: GraffitiSession | null,
+  ): Promise<
+    GraffitiObject<Schema> & Omit<GraffitiLocalRevision, "tombstone">
+  > => {
+    const docs = await this.revisionDocs(unpackObjectUrl(url));
+
+    const doc =
+      "rev" in revision
+        ? docs.find(({ rev }) => rev === revision.rev)
+        : docs.findLast((doc) => {
+            const time = lastModifiedTime(doc.lastModified);
+            return time !== undefined && time <= revision.asOf;
+          });
+    const masked = doc && (await this.visibleObject(doc, session));
+    if (!doc?.rev || !masked) {
+      throw new GraffitiErrorNotFound(
+        "The revision you are trying to get either does not exist or you are not allowed to see it",
+      );
+    }
+
+    const validate = await compileGraffitiObjectSchema(schema);
+    if (!validate(masked)) {
+      throw new GraffitiErrorSchemaMismatch();
+    }
+    return { ...masked, rev: doc.rev, lastModified: doc.lastModified };
+  };
+
+  protected async revisionDocs(url: string) {
+    const [current, kept] = await Promise.all([
+      this.storage.get(url),
+      this.storage.revisions(url),
+    ]);
+    return current
+      ? [...kept.filter(({ rev }) => rev !== current.rev), current]
+      : kept;
+  }
+
+  /**
+   * Like {@link delete}, but without dispatching an object event,
+   * for callers like media that dispatch their own once done.
+   */
+  deleteObject: Graffiti["delete"] = async (...args) => {
     const [urlObject, session] = args;
 
     const url = unpackObjectUrl(urlObject);
@@ -176,28 +738,35 @@ export class GraffitiLocalObjects {
       );
     }
 
-    let doc: GraffitiObjectData & PouchDB.Core.IdMeta & PouchDB.Core.GetMeta;
-    try {
-      doc = await (await this.db).get(url);
-    } catch {
+    const doc = await this.storage.get(url);
+    if (!doc || doc.tombstone) {
       throw new GraffitiErrorNotFound("Object not found.");
     }
-
-    if (doc.tombstone) {
-      throw new GraffitiErrorNotFound("Object not found.");
+    const value = await this.decryptValue(doc);
+    if (this.revisionLimit > 0) {
+      await this.storage.keepRevision(doc, this.revisionLimit);
     }
 
     // Set the tombstone and update lastModified
     doc.tombstone = true;
-    doc.lastModified = await this.getOperationClock();
+    doc.lastModified = await this.now();
+    doc.deletedAt = this.currentTime();
+    if (isDidKey(actor)) {
+      doc.signature = await this.keys.sign(actor, doc);
+    }
+    let rev: string;
     try {
-      await (await this.db).put(doc);
+      rev = await this.storage.put(doc);
     } catch {
       throw new GraffitiErrorNotFound("Object not found.");
     }
+    this.broadcast?.post({ type: "change", object: { ...doc, rev } });
+
+    // Whether or not it was deleted with `deleteMedia`
+    if (doc.media) await this.storage.releaseMedia(doc.media.hash, url);
 
     // Return the output
-    const { value, channels, allowed } = doc;
+    const { channels, allowed } = doc;
     const object: GraffitiObjectBase = {
       value,
       channels,
@@ -208,29 +777,106 @@ export class GraffitiLocalObjects {
     return object;
   };
 
-  // @ts-ignore
-  post: Graffiti["post"] = async (...args) => {
-    const [objectPartial, session] = args;
+  delete: Graffiti["delete"] = async (...args) => {
+    const object = await this.deleteObject(...args);
+    this.events.dispatch("delete", object);
+    return object;
+  };
+
+  /**
+   * Replaces the value of an object that the session created,
+   * keeping its URL, for objects like
+   * {@link GraffitiLocalGroups | groups} that their owner manages.
+   * `update` is given the current value and the new `lastModified`.
+   *
+   * @throws {@link GraffitiErrorNotFound} if the object does not exist
+   * or changed in the meantime.
+   */
+  update = async (
+    url: string,
+    session: GraffitiSession,
+    update: (value: {}, lastModified: string | number) => {},
+  ): Promise<void> => {
+    const { actor } = decodeObjectUrl(url);
+    if (actor !== session.actor) {
+      throw new GraffitiErrorForbidden(
+        "You cannot update an object that you did not create.",
+      );
+    }
 
+    const stored = await this.storage.get(url);
+    if (!stored || stored.tombstone) {
+      throw new GraffitiErrorNotFound("Object not found.");
+    }
+    const value = await this.decryptValue(stored);
+    if (this.revisionLimit > 0) {
+      await this.storage.keepRevision(stored, this.revisionLimit);
+    }
+
+    const lastModified = await this.now();
+    const updated = update(value, lastModified);
+    let doc: GraffitiLocalStoredObject = {
+      ...stored,
+      value: updated,
+      lastModified,
+    };
+    delete doc.signature;
+    if (this.encryption) {
+      doc = await this.encryption.encryptObject(doc);
+    }
+    if (isDidKey(actor)) {
+      doc.signature = await this.keys.sign(actor, doc);
+    }
+    const rev = await this.quotas.write(
+      actor,
+      { value: updated, stored: doc, replaced: stored },
+      async () => {
+        try {
+          return await this.storage.put(doc);
+        } catch {
+          throw new GraffitiErrorNotFound("Object not found.");
+        }
+      },
+    );
+    this.broadcast?.post({ type: "change", object: { ...doc, rev } });
+  };
+
+  /**
+   * Like {@link post}, but without dispatching an object event,
+   * for callers like media that dispatch their own once done
+   * and mark their objects with the `media` they refer to.
+   */
+  postObject = async <Schema extends JSONSchema>(
+    objectPartial: Parameters<typeof Graffiti.prototype.post<Schema>>[0],
+    session: Parameters<typeof Graffiti.prototype.post<Schema>>[1],
+    media?: GraffitiObjectData["media"],
+  ): ReturnType<typeof Graffiti.prototype.post<Schema>> => {
     const actor = session.actor;
-    const id = randomBase64();
+    const id = (this.options.generateId ?? randomBase64)();
     const url = encodeObjectUrl(actor, id);
 
     const { value, channels, allowed } = objectPartial;
-    const object: GraffitiObjectData = {
+    let doc: GraffitiLocalStoredObject = {
+      url,
       value,
       channels,
       allowed,
-      lastModified: await this.getOperationClock(),
+      lastModified: await this.now(),
       tombstone: false,
+      ...(media ? { media } : {}),
     };
-
-    await (
-      await this.db
-    ).put({
-      _id: url,
-      ...object,
-    });
+    if (this.encryption) {
+      doc = await this.encryption.encryptObject(doc);
+    }
+    // Signatures cover what is stored, so they can
+    // be verified without decrypting
+    if (isDidKey(actor)) {
+      doc.signature = await this.keys.sign(actor, doc);
+    }
+    const rev = await this.quotas.write(actor, { value, stored: doc }, () =>
+      this.storage.put(doc),
+    );
+    this.broadcast?.post({ type: "change", object: { ...doc, rev } });
 
     return {
       channels: objectPartial.channels,
@@ -242,158 +888,497 @@ export class GraffitiLocalObjects {
         : {}),
       actor,
       url,
-    };
+    } as GraffitiObject<Schema>;
   };
 
+  post = async <Schema extends JSONSchema>(
+    ...args: Parameters<typeof Graffiti.prototype.post<Schema>>
+  ) => {
+    const object = await this.postObject<Schema>(...args);
+    this.events.dispatch("post", object);
+    return object;
+  };
+
+  /**
+   * Yields the objects that are posted and deleted, including
+   * media, that `session` is allowed to see.
+   * See {@link GraffitiLocalObjectEvents.watch}.
+   */
+  objectEvents = (
+    session?: GraffitiSession | null,
+    options?: GraffitiLocalObjectEventOptions,
+  ) => this.events.watch(session, options);
+
+  /**
+   * Converts a stored document into a stream entry,
+   * or returns `undefined` if the session is not allowed
+   * to see it, it does not match the schema or its
+   * signature is invalid. Returns an error if it is
+   * encrypted and can't be decrypted.
+   */
+  protected async streamEntry<Schema extends JSONSchema>(
+    doc: GraffitiLocalStoredObject,
+    discoverChannels: string[],
+    validate: (data: GraffitiObjectBase) => data is GraffitiObject<Schema>,
+    session?: GraffitiSession | null,
+    groups?: Map<string, Promise<string[]>>,
+    values?: Map<GraffitiLocalStoredObject, Promise<{}>>,
+  ): Promise<
+    | GraffitiObjectStreamError
+    | GraffitiObjectStreamEntry<Schema>
+    | GraffitiObjectStreamTombstone
+    | undefined
+  > {
+    const { url, tombstone, value, channels, allowed } = doc;
+    const { actor } = decodeObjectUrl(url);
+    if (isDidKey(actor) && !(await this.keys.verify(actor, doc))) return;
+    this.clock.receive(doc.lastModified);
+
+    const object: GraffitiObjectBase = {
+      url,
+      value,
+      allowed,
+      channels,
+      actor,
+    };
+
+    if (!(await this.isAllowed(object, session, groups))) return;
+    try {
+      object.value = await this.decryptValue(doc, values);
+    } catch (error) {
+      if (!(error instanceof GraffitiLocalErrorDecryption)) throw error;
+      return { error, origin: url };
+    }
+
+    const masked = maskGraffitiObject(object, discoverChannels, session?.actor);
+
+    if (!validate(masked)) return;
+
+    return tombstone
+      ? {
+          tombstone: true,
+          object: { url },
+        }
+      : { object: masked };
+  }
+
+  /**
+   * Picks a declared index that can narrow down
+   * which objects could match the schema, if any.
+   */
+  protected indexFilter(
+    schema: JSONSchema,
+  ): GraffitiLocalValueFilter | undefined {
+    // Encrypted values can't be indexed
+    if (this.encryption) return;
+    for (const path of this.options.indexes ?? []) {
+      const values = pinnedValues(schema, path);
+      if (values) return { path, values };
+    }
+  }
+
+  protected get discoverPageSize() {
+    return this.options.discoverPageSize ?? DEFAULT_DISCOVER_PAGE_SIZE;
+  }
+
+  /**
+   * Yields the objects in a channel in order, reading
+   * them from storage a page at a time as they are consumed.
+   */
+  protected async *channelDocs(
+    channel: string,
+    query: Omit<GraffitiLocalChannelQuery, "limit">,
+  ): AsyncGenerator<GraffitiLocalStoredObject, void> {
+    const direction = query.descending ? -1 : 1;
+    const pageSize = this.discoverPageSize;
+    let after = query.after;
+    while (true) {
+      const docs = await this.storage.queryChannel(channel, {
+        ...query,
+        after,
+        limit: pageSize,
+      });
+      for (const doc of docs) {
+        // Objects that list the channel twice are returned twice
+        if (after && compareByLastModified(doc, after) * direction <= 0) {
+          continue;
+        }
+        after = { lastModified: doc.lastModified, url: doc.url };
+        yield doc;
+      }
+      // Pages are only short at the end of the channel
+      if (docs.length < pageSize) return;
+    }
+  }
+
+  /**
+   * Yields the objects in each channel in turn,
+   * skipping those already read from an earlier channel.
+   */
+  protected async *eachChannelDocs(
+    channels: string[],
+    filter: GraffitiLocalValueFilter | undefined,
+    start: { channel?: number; after?: GraffitiLocalChannelPosition },
+  ): AsyncGenerator<{ doc: GraffitiLocalStoredObject; channel: number }> {
+    const first = start.channel ?? 0;
+    for (let channel = first; channel < channels.length; channel++) {
+      const earlierChannels = channels.slice(0, channel);
+      const after = channel === first ? start.after : undefined;
+      for await (const doc of this.channelDocs(channels[channel], {
+        filter,
+        after,
+      })) {
+        if (doc.channels.some((c) => earlierChannels.includes(c))) continue;
+        yield { doc, channel };
+      }
+    }
+  }
+
+  /**
+   * Yields the objects in all channels merged into one order,
+   * reading each channel a page at a time. An object in several
+   * channels is read from each at the same position, so it is
+   * skipped if it matches the previous object.
+   */
+  protected async *mergedChannelDocs(
+    channels: string[],
+    filter: GraffitiLocalValueFilter | undefined,
+    order: GraffitiLocalDiscoverOrder,
+    after?: GraffitiLocalChannelPosition,
+  ): AsyncGenerator<{ doc: GraffitiLocalStoredObject }> {
+    const descending = order === "descending";
+    const direction = descending ? -1 : 1;
+    const sources = channels.map((channel) =>
+      this.channelDocs(channel, { filter, descending, after }),
+    );
+    const heads = await Promise.all(sources.map((source) => source.next()));
+
+    let previous = after;
+    while (true) {
+      let next: number | undefined;
+      heads.forEach((head, index) => {
+        if (head.done) return;
+        if (
+          next === undefined ||
+          compareByLastModified(head.value, heads[next].value!) * direction < 0
+        ) {
+          next = index;
+        }
+      });
+      if (next === undefined) return;
+
+      const doc = heads[next].value!;
+      heads[next] = await sources[next].next();
+      if (previous && compareByLastModified(doc, previous) === 0) continue;
+      previous = { lastModified: doc.lastModified, url: doc.url };
+      yield { doc };
+    }
+  }
+
+  /**
+   * Yields the objects in the discovered channels, reading them
+   * from storage a page at a time as they are consumed. With a
+   * `limit`, it stops after that many and returns where it left
+   * off, so the next page can be read with a cursor. With an
+   * `order`, channels are merged by `lastModified`.
+   */
   protected async *discoverMeta<Schema extends JSONSchema>(
     args: Parameters<typeof Graffiti.prototype.discover<Schema>>,
-    continueParams?: {
-      lastDiscovered: number;
-      ifModifiedSince: number;
-    },
+    continueParams?: ContinueDiscoverParams,
+    options?: GraffitiLocalDiscoverOptions,
   ): AsyncGenerator<
-    GraffitiObjectStreamEntry<Schema> | GraffitiObjectStreamTombstone,
+    | GraffitiObjectStreamError
+    | GraffitiObjectStreamEntry<Schema>
+    | GraffitiObjectStreamTombstone,
     ContinueDiscoverParams
   > {
-    // If we are continuing a discover, make sure to wait at
-    // least 1 second since the last poll to start a new one.
-    if (continueParams) {
-      const continueBuffer = this.options.continueBuffer ?? 1000;
-      const timeElapsedSinceLastDiscover =
-        Date.now() - continueParams.lastDiscovered;
-      if (timeElapsedSinceLastDiscover < continueBuffer) {
-        // Continue was called too soon,
-        // wait a bit before continuing
-        await new Promise((resolve) =>
-          setTimeout(resolve, continueBuffer - timeElapsedSinceLastDiscover),
+    const [discoverChannels, schema, session] = args;
+    const { limit, order } = options ?? {};
+    const validate = await compileGraffitiObjectSchema(schema);
+    const lastDiscoveryStart = this.currentTime();
+    const pageSize = this.discoverPageSize;
+    const optionParams = {
+      ...(limit !== undefined ? { limit } : {}),
+      ...(order ? { order } : {}),
+    };
+    let yielded = 0;
+
+    if (continueParams && !continueParams.scan) {
+      // Continue from the changes feed rather than from `lastModified`
+      // so that objects written elsewhere with an earlier timestamp
+      // but replicated in since the last discover are not skipped.
+      let since = continueParams.since;
+      while (limit === undefined || yielded < limit) {
+        // Never read more changes than can be yielded,
+        // so none are skipped when the limit is reached
+        const batchSize =
+          limit === undefined ? pageSize : Math.min(pageSize, limit - yielded);
+        const result = await this.storage.changes(since, batchSize);
+        // Storage may read changes that aren't objects, so only
+        // a sequence that stops advancing means there are no more
+        if (result.sequence === since) break;
+        since = result.sequence;
+
+        const docs = result.objects.filter((doc) =>
+          doc.channels.some((c) => discoverChannels.includes(c)),
         );
+        const groups = new Map<string, Promise<string[]>>();
+        const values = new Map<GraffitiLocalStoredObject, Promise<{}>>();
+        for (const doc of docs) {
+          const entry = await this.streamEntry<Schema>(
+            doc,
+            discoverChannels,
+            validate,
+            session,
+            groups,
+            values,
+          );
+          if (!entry) continue;
+          yielded++;
+          yield entry;
+        }
+        // These may go over the limit, since they
+        // can't be resumed partway through a group
+        for await (const entry of this.groupChangeEntries<Schema>(
+          result.objects,
+          discoverChannels,
+          validate,
+          session,
+          groups,
+          values,
+        )) {
+          yielded++;
+          yield entry;
+        }
       }
+
+      return {
+        lastDiscovered: Date.now(),
+        lastDiscoveryStart,
+        since,
+        ...optionParams,
+      };
     }
 
-    const [discoverChannels, schema, session] = args;
-    const validate = await compileGraffitiObjectSchema(schema);
-    const startKeySuffix = continueParams
-      ? continueParams.ifModifiedSince.toString().padStart(15, "0")
-      : "";
-    const endKeySuffix = "\uffff";
-
-    const processedUrls = new Set<string>();
-
-    const startTime = await this.getOperationClock();
-
-    for (const channel of discoverChannels) {
-      const keyPrefix = encodeURIComponent(channel) + "/";
-      const startkey = keyPrefix + startKeySuffix;
-      const endkey = keyPrefix + endKeySuffix;
-
-      const result = await (
-        await this.db
-      ).query<GraffitiObjectData>("indexes/objectsPerChannelAndLastModified", {
-        startkey,
-        endkey,
-        include_docs: true,
-      });
+    // Anything written after the discover began
+    // will be picked up by a continuation
+    const since = continueParams?.since ?? (await this.storage.sequence());
+    const discoveryStart =
+      continueParams?.lastDiscoveryStart ?? lastDiscoveryStart;
+    const filter = this.indexFilter(schema);
+    const start = continueParams?.scan ?? {};
+    const docs = order
+      ? this.mergedChannelDocs(discoverChannels, filter, order, start.after)
+      : this.eachChannelDocs(discoverChannels, filter, start);
 
-      for (const row of result.rows) {
-        const doc = row.doc;
-        if (!doc) continue;
+    const groups = new Map<string, Promise<string[]>>();
+    for await (const { doc, ...scan } of docs) {
+      // Tombstones are only relevant to continuations
+      if (doc.tombstone) continue;
 
-        const url = doc._id;
+      const entry = await this.streamEntry<Schema>(
+        doc,
+        discoverChannels,
+        validate,
+        session,
+        groups,
+      );
+      if (!entry) continue;
+      yield entry;
 
-        if (processedUrls.has(url)) continue;
-        processedUrls.add(url);
+      if (limit !== undefined && ++yielded >= limit) {
+        return {
+          lastDiscovered: Date.now(),
+          lastDiscoveryStart: discoveryStart,
+          since,
+          scan: {
+            ...scan,
+            after: { lastModified: doc.lastModified, url: doc.url },
+          },
+          ...optionParams,
+        };
+      }
+    }
 
-        // If this is not a continuation, skip tombstones
-        if (!continueParams && doc.tombstone) continue;
+    return {
+      lastDiscovered: Date.now(),
+      lastDiscoveryStart: discoveryStart,
+      since,
+      ...optionParams,
+    };
+  }
 
-        const { tombstone, value, channels, allowed } = doc;
-        const { actor } = decodeObjectUrl(url);
+  /**
+   * When groups have changed, yields the objects shared with them
+   * in the discovered channels if the session is a member, or
+   * tombstones for those it could see if it was removed.
+   * Only objects that list a changed group are read, and the
+   * groups' members are cached in `groups`.
+   */
+  protected async *groupChangeEntries<Schema extends JSONSchema>(
+    docs: GraffitiLocalStoredObject[],
+    discoverChannels: string[],
+    validate: (data: GraffitiObjectBase) => data is GraffitiObject<Schema>,
+    session?: GraffitiSession | null,
+    groups: Map<string, Promise<string[]>> = new Map(),
+    values?: Map<GraffitiLocalStoredObject, Promise<{}>>,
+  ): AsyncGenerator<
+    GraffitiObjectStreamEntry<Schema> | GraffitiObjectStreamTombstone
+  > {
+    const actor = session?.actor;
+    if (!actor) return;
 
-        const object: GraffitiObjectBase = {
-          url,
-          value,
-          allowed,
-          channels,
-          actor,
-        };
+    const changes = new Map<
+      string,
+      { member: boolean; removedAt: string | number | undefined }
+    >();
+    for (const doc of docs) {
+      const { actor: owner } = decodeObjectUrl(doc.url);
+      if (actor === owner) continue;
+      if (isDidKey(owner) && !(await this.keys.verify(owner, doc))) continue;
+
+      let group: ReturnType<typeof groupValue>;
+      try {
+        group = groupValue(await this.decryptValue(doc, values));
+      } catch (error) {
+        if (!(error instanceof GraffitiLocalErrorDecryption)) throw error;
+        continue;
+      }
+      if (!group) continue;
+      groups.set(doc.url, Promise.resolve(doc.tombstone ? [] : group.members));
 
-        if (!isActorAllowedGraffitiObject(object, session)) continue;
+      // Deleting a group removes all of its members
+      const member = !doc.tombstone && group.members.includes(actor);
+      const removedAt =
+        doc.tombstone && group.members.includes(actor)
+          ? doc.lastModified
+          : group.removed[actor];
+      if (member || removedAt !== undefined) {
+        changes.set(doc.url, { member, removedAt });
+      }
+    }
+    if (!changes.size) return;
+
+    for await (const { doc: shared } of this.eachChannelDocs(
+      discoverChannels,
+      { path: "allowed", values: Array.from(changes.keys()) },
+      {},
+    )) {
+      if (shared.tombstone) continue;
+      const changed = groupUrls(shared).flatMap((url) => {
+        const change = changes.get(url);
+        return change ? [change] : [];
+      });
 
-        const masked = maskGraffitiObject(
-          object,
+      if (changed.some(({ member }) => member)) {
+        const entry = await this.streamEntry<Schema>(
+          shared,
           discoverChannels,
-          session?.actor,
+          validate,
+          session,
+          groups,
+          values,
         );
+        if (entry && !entry.error) yield entry;
+        continue;
+      }
 
-        if (!validate(masked)) continue;
-
-        yield tombstone
-          ? {
-              tombstone: true,
-              object: { url },
-            }
-          : { object: masked };
+      // Only objects from before a removal were ever visible,
+      // and they may still be shared some other way
+      const lastModified = lastModifiedKey(shared.lastModified);
+      if (
+        !changed.some(
+          ({ removedAt }) =>
+            removedAt !== undefined &&
+            lastModified <= lastModifiedKey(removedAt),
+        )
+      ) {
+        continue;
       }
+      const { url, value, channels, allowed } = shared;
+      const { actor: owner } = decodeObjectUrl(url);
+      const object = { url, value, channels, allowed, actor: owner };
+      if (await this.isAllowed(object, session, groups)) continue;
+      yield { tombstone: true, object: { url } };
     }
-
-    return {
-      lastDiscovered: Date.now(),
-      ifModifiedSince: startTime,
-    };
   }
 
   protected discoverCursor(
     args: Parameters<typeof Graffiti.prototype.discover<{}>>,
-    continueParams: {
-      lastDiscovered: number;
-      ifModifiedSince: number;
-    },
-  ): string {
+    continueParams: ContinueDiscoverParams,
+  ): Promise<string> {
     const [channels, schema, session] = args;
-    return (
-      "discover:" +
-      JSON.stringify({
-        channels,
-        schema,
-        continueParams,
-        actor: session?.actor,
-      })
-    );
+    const cursorLifetime =
+      this.options.cursorLifetime ?? DEFAULT_CURSOR_LIFETIME;
+    return this.cursors.create({
+      channels,
+      schema,
+      actor: session?.actor ?? null,
+      continueParams,
+      // Tombstones older than the retention window may be
+      // purged, so an older cursor could miss deletions.
+      expiresAt: Math.min(
+        this.currentTime() + cursorLifetime,
+        continueParams.lastDiscoveryStart + this.tombstoneRetention,
+      ),
+    });
   }
 
   protected async *discoverContinue<Schema extends JSONSchema>(
-    args: Parameters<typeof Graffiti.prototype.discover<Schema>>,
-    continueParams: {
-      lastDiscovered: number;
-      ifModifiedSince: number;
-    },
+    cursor: string,
     session?: GraffitiSession | null,
   ): GraffitiObjectStream<Schema> {
-    if (session?.actor !== args[2]?.actor) {
-      throw new GraffitiErrorForbidden(
-        "Cannot continue a cursor started by another actor",
+    const { channels, schema, continueParams } = await this.cursors.consume(
+      cursor,
+      session?.actor,
+    );
+    const args: Parameters<typeof Graffiti.prototype.discover<Schema>> = [
+      channels,
+      schema as Schema,
+      session,
+    ];
+
+    // Make sure to wait at least `continueBuffer`
+    // since the last poll to start a new one.
+    // Reading the next page of channels is not a poll.
+    // This is real time, even if the clock is faked.
+    const continueBuffer = this.options.continueBuffer ?? 1000;
+    const timeElapsedSinceLastDiscover =
+      Date.now() - continueParams.lastDiscovered;
+    if (!continueParams.scan && timeElapsedSinceLastDiscover < continueBuffer) {
+      // Continue was called too soon,
+      // wait a bit before continuing
+      await new Promise((resolve) =>
+        setTimeout(resolve, continueBuffer - timeElapsedSinceLastDiscover),
       );
     }
-    const iterator = this.discoverMeta<Schema>(args, continueParams);
+
+    const { limit, order } = continueParams;
+    const iterator = this.discoverMeta<Schema>(args, continueParams, {
+      limit,
+      order,
+    });
 
     while (true) {
       const result = await iterator.next();
       if (result.done) {
         return {
-          cursor: this.discoverCursor(args, result.value),
+          cursor: await this.discoverCursor(args, result.value),
         };
       }
       yield result.value;
     }
   }
 
-  discover: Graffiti["discover"] = (...args) => {
-    const [channels, schema, session] = args;
-    const iterator = this.discoverMeta<(typeof args)[1]>([
-      channels,
-      schema,
-      session,
-    ]);
+  protected discoverFresh<Schema extends JSONSchema>(
+    args: Parameters<typeof Graffiti.prototype.discover<Schema>>,
+    options?: GraffitiLocalDiscoverOptions,
+  ): GraffitiObjectStream<Schema> {
+    const limit = options?.limit;
+    if (limit !== undefined && (!Number.isSafeInteger(limit) || limit < 1)) {
+      throw new RangeError("The page limit must be a positive integer");
+    }
+    const iterator = this.discoverMeta<Schema>(args, undefined, options);
 
     const this_ = this;
     return (async function* () {
@@ -401,40 +1386,240 @@ export class GraffitiLocalObjects {
         const result = await iterator.next();
         if (result.done) {
           return {
-            cursor: this_.discoverCursor(args, result.value),
+            cursor: await this_.discoverCursor(args, result.value),
           };
         }
         // Make sure to filter out tombstones
-        if (result.value.tombstone) continue;
+        if (!result.value.error && result.value.tombstone) continue;
         yield result.value;
       }
     })();
+  }
+
+  discover: Graffiti["discover"] = (...args) => {
+    const [channels, schema, session] = args;
+    return this.discoverFresh<(typeof args)[1]>([channels, schema, session]);
+  };
+
+  /**
+   * Like {@link discover}, but yields at most `limit` objects.
+   * Continuing the returned cursor yields the next page, and
+   * once every channel has been read, the objects that have
+   * changed since the discover began, again `limit` at a time.
+   * Objects written while paging may be yielded twice.
+   */
+  discoverPage = <Schema extends JSONSchema>(
+    channels: string[],
+    schema: Schema,
+    session: GraffitiSession | null | undefined,
+    options: GraffitiLocalDiscoverOptions & { limit: number },
+  ): GraffitiObjectStream<Schema> =>
+    this.discoverFresh<Schema>([channels, schema, session], options);
+
+  /**
+   * Like {@link discover}, but rather than yielding each channel
+   * in turn, merges them into one stream ordered by `lastModified`,
+   * oldest first if `order` is `"ascending"` and newest first if it
+   * is `"descending"`. Continuing the returned cursor keeps the order.
+   */
+  discoverOrdered = <Schema extends JSONSchema>(
+    channels: string[],
+    schema: Schema,
+    session: GraffitiSession | null | undefined,
+    options: GraffitiLocalDiscoverOptions & {
+      order: GraffitiLocalDiscoverOrder;
+    },
+  ): GraffitiObjectStream<Schema> =>
+    this.discoverFresh<Schema>([channels, schema, session], options);
+
+  /**
+   * Finds objects in `channels` with string values that contain the
+   * words in `query`, ignoring case and accents. Matches are ranked by
+   * how many of the words they contain, then how often they occur,
+   * then newest first. Like {@link discover}, only objects the session
+   * is allowed to see are returned, with their channels masked.
+   */
+  search = async (
+    channels: string[],
+    query: string,
+    session?: GraffitiSession | null,
+    options?: GraffitiLocalSearchOptions,
+  ): Promise<GraffitiLocalSearchResult[]> => {
+    const terms = Array.from(searchTerms(query).keys());
+    if (!terms.length) return [];
+
+    const docs = new Map<string, GraffitiLocalStoredObject>();
+    for (const channel of new Set(channels)) {
+      // Encrypted values can't be indexed, so check every object
+      const found = this.encryption
+        ? await this.storage.queryChannel(channel)
+        : await this.storage.searchChannel(channel, terms);
+      for (const doc of found) {
+        if (!doc.tombstone) docs.set(doc.url, doc);
+      }
+    }
+
+    const validate = await compileGraffitiObjectSchema({});
+    const results: (GraffitiLocalSearchResult & {
+      lastModified: string | number;
+    })[] = [];
+    for (const doc of docs.values()) {
+      const entry = await this.streamEntry<{}>(
+        doc,
+        channels,
+        validate,
+        session,
+      );
+      if (!entry || entry.error || entry.tombstone) continue;
+      const counts = searchTerms(entry.object.value);
+      const matched = terms.filter((term) => counts.has(term));
+      if (!matched.length) continue;
+      const occurrences = matched.reduce((sum, t) => sum + counts.get(t)!, 0);
+      results.push({
+        object: entry.object,
+        score: matched.length + 1 - 1 / (1 + occurrences),
+        lastModified: doc.lastModified,
+      });
+    }
+
+    return results
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          compareByLastModified(
+            { lastModified: b.lastModified, url: b.object.url },
+            { lastModified: a.lastModified, url: a.object.url },
+          ),
+      )
+      .slice(0, options?.limit)
+      .map(({ object, score }) => ({ object, score }));
   };
 
   // @ts-ignore
   continueDiscover: Graffiti["continueDiscover"] = (...args) => {
     const [cursor, session] = args;
-    if (cursor.startsWith("discover:")) {
-      // TODO: use AJV here
-      const { channels, schema, actor, continueParams } = JSON.parse(
-        cursor.slice("discover:".length),
-      );
-      if (actor && actor !== session?.actor) {
-        return (async function* () {
-          throw new GraffitiErrorForbidden(
-            "Cannot continue a cursor started by another actor",
+    return this.discoverContinue<{}>(cursor, session);
+  };
+
+  /**
+   * Catches up on the given discover and then yields new objects
+   * and tombstones in the discovered channels as soon as they are
+   * written, by listening to the storage's change feed rather than
+   * polling. The stream never ends on its own; the change feed
+   * is closed when the consumer stops iterating.
+   */
+  protected async *discoverLiveMeta<Schema extends JSONSchema>(
+    args: Parameters<typeof Graffiti.prototype.discover<Schema>>,
+    continueParams?: ContinueDiscoverParams,
+  ): GraffitiLocalLiveStream<Schema> {
+    const [discoverChannels, schema, session] = args;
+    const validate = await compileGraffitiObjectSchema(schema);
+
+    // Start listening before catching up so that
+    // nothing written in the meantime is missed.
+    // A discover that stopped partway through its channels
+    // has not caught up on changes since it began.
+    const since = continueParams?.scan
+      ? continueParams.since
+      : await this.storage.sequence();
+    const { changes, cancel } = watchChanges(
+      this.storage,
+      since,
+      this.broadcast,
+    );
+
+    try {
+      // Remember what has been yielded to avoid repeating
+      // changes that the catch up already included
+      const yieldedTombstones = new Map<string, boolean>();
+
+      const iterator = this.discoverMeta<Schema>(args, continueParams, {
+        order: continueParams?.order,
+      });
+      while (true) {
+        const result = await iterator.next();
+        if (result.done) break;
+        // Objects that can't be decrypted are left out
+        if (result.value.error) continue;
+        yieldedTombstones.set(
+          result.value.object.url,
+          !!result.value.tombstone,
+        );
+        yield result.value;
+      }
+
+      for await (const doc of changes) {
+        const values = new Map<GraffitiLocalStoredObject, Promise<{}>>();
+        if (
+          doc.channels.some((c) => discoverChannels.includes(c)) &&
+          yieldedTombstones.get(doc.url) !== doc.tombstone
+        ) {
+          const entry = await this.streamEntry<Schema>(
+            doc,
+            discoverChannels,
+            validate,
+            session,
+            undefined,
+            values,
           );
-        })();
+          if (entry && !entry.error) {
+            yieldedTombstones.set(doc.url, doc.tombstone);
+            yield entry;
+          }
+        }
+
+        // Objects shared with a group appear and disappear
+        // as the session joins and leaves it, though
+        // the objects themselves haven't changed
+        for await (const entry of this.groupChangeEntries<Schema>(
+          [doc],
+          discoverChannels,
+          validate,
+          session,
+          undefined,
+          values,
+        )) {
+          const tombstone = !!entry.tombstone;
+          if (yieldedTombstones.get(entry.object.url) === tombstone) continue;
+          yieldedTombstones.set(entry.object.url, tombstone);
+          yield entry;
+        }
       }
-      return this.discoverContinue<{}>(
-        [channels, schema, session],
+    } finally {
+      cancel();
+    }
+  }
+
+  /**
+   * Like {@link discover}, but rather than ending, the stream
+   * stays open and yields new objects and tombstones
+   * as soon as they are written to the database.
+   */
+  discoverLive = <Schema extends JSONSchema>(
+    ...args: Parameters<typeof Graffiti.prototype.discover<Schema>>
+  ): GraffitiLocalLiveStream<Schema> => {
+    return this.discoverLiveMeta<Schema>(args);
+  };
+
+  /**
+   * Like {@link continueDiscover}, but rather than ending, the stream
+   * stays open and yields new objects and tombstones
+   * as soon as they are written to the database.
+   */
+  continueDiscoverLive = <Schema extends JSONSchema>(
+    cursor: string,
+    session?: GraffitiSession | null,
+  ): GraffitiLocalLiveStream<Schema> => {
+    const this_ = this;
+    return (async function* () {
+      const { channels, schema, continueParams } = await this_.cursors.consume(
+        cursor,
+        session?.actor,
+      );
+      yield* this_.discoverLiveMeta<Schema>(
+        [channels, schema as Schema, session],
         continueParams,
-        session,
       );
-    } else {
-      return (async function* () {
-        throw new GraffitiErrorCursorExpired("Cursor not found");
-      })();
-    }
+    })();
   };
 }
@@ -0,0 +1,202 @@
+import { describe, it, expect } from "vitest";
+import type { GraffitiObjectStream } from "@graffiti-garden/api";
+import {
+  GraffitiLocal,
+  GraffitiLocalMemoryStorage,
+  type GraffitiLocalStorage,
+} from "./index";
+import { encodeObjectUrl, randomBase64 } from "./utilities";
+import { collect, tempPouchDBStorages } from "./test-utilities";
+
+const session = { actor: "did:example:someone" };
+
+async function collectUrls(stream: GraffitiObjectStream<{}>) {
+  const { values, cursor } = await collect(stream);
+  const urls = values.flatMap((value) =>
+    value.error ? [] : [value.object.url],
+  );
+  return { urls, cursor };
+}
+
+const createPouchDBStorage = tempPouchDBStorages("pages");
+
+describe.each([
+  ["memory", () => new GraffitiLocalMemoryStorage()],
+  ["PouchDB", () => createPouchDBStorage()],
+] as [string, () => GraffitiLocalStorage][])(
+  "paginated discover with %s storage",
+  (_, createStorage) => {
+    it("reads channels in pages that resume where they left off", async () => {
+      const graffiti = new GraffitiLocal({
+        storage: createStorage(),
+        discoverPageSize: 3,
+        continueBuffer: 0,
+      });
+      const [a, b] = [randomBase64(), randomBase64()];
+      for (const channels of [[a], [b], [a, b], [b, a], [a], [b, b]]) {
+        for (let i = 0; i < 2; i++) {
+          await graffiti.post<{}>({ value: {}, channels }, session);
+        }
+      }
+      const deleted = await graffiti.post<{}>(
+        { value: {}, channels: [a] },
+        session,
+      );
+      await graffiti.delete(deleted, session);
+
+      const expected = (
+        await collectUrls(graffiti.discover([a, b], {}, session))
+      ).urls;
+      expect(expected).toHaveLength(12);
+
+      const pages: string[][] = [];
+      let { urls, cursor } = await collectUrls(
+        graffiti.discoverPage([a, b], {}, session, { limit: 5 }),
+      );
+      pages.push(urls);
+      // Objects written partway through arrive after the channels
+      const late = await graffiti.post<{}>(
+        { value: {}, channels: [a] },
+        session,
+      );
+      while (urls.length) {
+        ({ urls, cursor } = await collectUrls(
+          graffiti.continueDiscover(cursor, session),
+        ));
+        pages.push(urls);
+      }
+      // The late object is also read in the channel it was posted to
+      expect(pages.map((page) => page.length)).toEqual([5, 5, 3, 1, 0]);
+      expect(pages.flat().filter((url) => url !== late.url)).toEqual(expected);
+      expect(pages.at(-2)).toEqual([late.url]);
+    });
+
+    it("merges channels by lastModified in either order", async () => {
+      const graffiti = new GraffitiLocal({
+        storage: createStorage(),
+        discoverPageSize: 2,
+        continueBuffer: 0,
+      });
+      const [a, b, c] = [randomBase64(), randomBase64(), randomBase64()];
+      const posted: string[] = [];
+      for (const channels of [[c], [a, b], [b], [a], [c, a, c], [b], [a]]) {
+        posted.push(
+          (await graffiti.post<{}>({ value: {}, channels }, session)).url,
+        );
+      }
+      await graffiti.delete({ url: posted.splice(2, 1)[0] }, session);
+
+      for (const order of ["ascending", "descending"] as const) {
+        const pages: string[][] = [];
+        let { urls, cursor } = await collectUrls(
+          graffiti.discoverOrdered([a, b, c], {}, session, { order, limit: 4 }),
+        );
+        pages.push(urls);
+        while (urls.length === 4) {
+          ({ urls, cursor } = await collectUrls(
+            graffiti.continueDiscover(cursor, session),
+          ));
+          pages.push(urls);
+        }
+        expect(pages.map((page) => page.length)).toEqual([4, 2]);
+        expect(pages.flat()).toEqual(
+          order === "ascending" ? posted : [...posted].reverse(),
+        );
+      }
+    });
+
+    it("reads every object when many share a timestamp", async () => {
+      const storage = createStorage();
+      const graffiti = new GraffitiLocal({
+        storage,
+        discoverPageSize: 2,
+        continueBuffer: 0,
+      });
+      const channels = [randomBase64()];
+      // Written by older versions with millisecond timestamps
+      const urls: string[] = [];
+      for (let i = 0; i < 7; i++) {
+        const url = encodeObjectUrl(session.actor, randomBase64());
+        await storage.put({
+          url,
+          value: {},
+          channels,
+          allowed: null,
+          lastModified: 1000,
+          tombstone: false,
+        });
+        urls.push(url);
+      }
+      urls.sort();
+
+      expect(
+        (await collectUrls(graffiti.discover(channels, {}, session))).urls,
+      ).toHaveLength(7);
+      for (const order of ["ascending", "descending"] as const) {
+        const { urls: ordered } = await collectUrls(
+          graffiti.discoverOrdered(channels, {}, session, { order }),
+        );
+        expect(ordered).toEqual(
+          order === "ascending" ? urls : [...urls].reverse(),
+        );
+      }
+    });
+
+    it("pages through changes with the same limit", async () => {
+      const graffiti = new GraffitiLocal({
+        storage: createStorage(),
+        continueBuffer: 0,
+      });
+      const channels = [randomBase64()];
+      const { urls, cursor } = await collectUrls(
+        graffiti.discoverPage(channels, {}, session, { limit: 2 }),
+      );
+      expect(urls).toEqual([]);
+
+      const posted: string[] = [];
+      for (let i = 0; i < 3; i++) {
+        posted.push(
+          (await graffiti.post<{}>({ value: {}, channels }, session)).url,
+        );
+      }
+      const first = await collectUrls(
+        graffiti.continueDiscover(cursor, session),
+      );
+      const second = await collectUrls(
+        graffiti.continueDiscover(first.cursor, session),
+      );
+      expect([first.urls, second.urls]).toEqual([
+        posted.slice(0, 2),
+        posted.slice(2),
+      ]);
+
+      expect(() =>
+        graffiti.discoverPage(channels, {}, session, { limit: 0 }),
+      ).toThrow(RangeError);
+    });
+  },
+);
+
+describe("paginated discover with PouchDB storage", () => {
+  it("continues past changes that aren't objects", async () => {
+    const storage = createPouchDBStorage();
+    const graffiti = new GraffitiLocal({ storage, continueBuffer: 0 });
+    const channels = [randomBase64()];
+    const { cursor } = await collectUrls(
+      graffiti.discoverPage(channels, {}, session, { limit: 2 }),
+    );
+
+    const db = (await storage.db) as PouchDB.Database;
+    await db.put({ _id: "_design/other", views: {} });
+    const posted: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      posted.push(
+        (await graffiti.post<{}>({ value: {}, channels }, session)).url,
+      );
+    }
+    const { urls } = await collectUrls(
+      graffiti.continueDiscover(cursor, session),
+    );
+    expect(urls).toEqual(posted.slice(0, 2));
+  });
+});
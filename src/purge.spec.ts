@@ -0,0 +1,46 @@
+import { describe, it, expect, assert } from "vitest";
+import { GraffitiErrorCursorExpired } from "@graffiti-garden/api";
+import { GraffitiLocal, GraffitiLocalMemoryStorage } from "./index";
+import { randomBase64 } from "./utilities";
+
+const session = { actor: "did:example:someone" };
+
+describe("tombstone purging", () => {
+  it("purges expired tombstones and expires old cursors", async () => {
+    const graffiti = new GraffitiLocal({
+      storage: new GraffitiLocalMemoryStorage(),
+      tombstoneRetention: 0,
+      purgeInterval: 0,
+    });
+    const channels = [randomBase64()];
+
+    const posted = await graffiti.post<{}>({ value: {}, channels }, session);
+    const iterator = graffiti.discover<{}>(channels, {}, session);
+    await iterator.next();
+    const result = await iterator.next();
+    assert(result.done);
+
+    await graffiti.delete(posted, session);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await expect(graffiti.purgeTombstones()).resolves.toBe(1);
+    await expect(graffiti.purgeTombstones()).resolves.toBe(0);
+
+    const continued = graffiti.continueDiscover(result.value.cursor, session);
+    await expect(continued.next()).rejects.toThrow(GraffitiErrorCursorExpired);
+  });
+
+  it("reports errors from background purging", async () => {
+    const storage = new GraffitiLocalMemoryStorage();
+    storage.queryTombstones = async () => {
+      throw new Error("Storage is unavailable");
+    };
+    const errors: unknown[] = [];
+    new GraffitiLocal({
+      storage,
+      purgeInterval: 5,
+      onError: (error) => errors.push(error),
+    });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(errors[0]).toEqual(new Error("Storage is unavailable"));
+  });
+});
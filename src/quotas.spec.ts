@@ -0,0 +1,230 @@
+import { describe, it, expect } from "vitest";
+import { GraffitiErrorTooLarge } from "@graffiti-garden/api";
+import {
+  GraffitiLocal,
+  GraffitiLocalErrorRateLimited,
+  GraffitiLocalMemoryStorage,
+  type GraffitiLocalStorage,
+} from "./index";
+import { randomBase64 } from "./utilities";
+import { tempPouchDBStorages } from "./test-utilities";
+
+const alice = { actor: "did:example:alice" };
+const bob = { actor: "did:example:bob" };
+
+const createPouchDBStorage = tempPouchDBStorages("quotas");
+
+describe.each([
+  ["memory", () => new GraffitiLocalMemoryStorage()],
+  ["PouchDB", () => createPouchDBStorage()],
+] as [string, () => GraffitiLocalStorage][])(
+  "quotas with %s storage",
+  (_, createStorage) => {
+    it("limits what each actor stores", async () => {
+      const storage = createStorage();
+      const graffiti = new GraffitiLocal({
+        storage,
+        quotas: { maxObjectsPerActor: 2, maxBytesPerActor: 40 },
+      });
+      const channels = [randomBase64()];
+
+      const first = await graffiti.post<{}>(
+        { value: { text: "ü" }, channels },
+        alice,
+      );
+      await expect(storage.usage(alice.actor)).resolves.toEqual({
+        objects: 1,
+        bytes: 13,
+      });
+      await expect(
+        graffiti.post<{}>({ value: { text: "x".repeat(30) }, channels }, alice),
+      ).rejects.toThrow(GraffitiErrorTooLarge);
+      await graffiti.post<{}>({ value: {}, channels }, alice);
+      await expect(
+        graffiti.post<{}>({ value: {}, channels }, alice),
+      ).rejects.toThrow(GraffitiErrorTooLarge);
+
+      // Others have their own quota, and deleting frees it up
+      await graffiti.post<{}>({ value: {}, channels }, bob);
+      await graffiti.delete(first, alice);
+      await graffiti.post<{}>({ value: {}, channels }, alice);
+
+      // Media counts towards the quota
+      await expect(
+        graffiti.postMedia({ data: new Blob(["x".repeat(40)]) }, bob),
+      ).rejects.toThrow(GraffitiErrorTooLarge);
+    });
+
+    it("only counts media bytes for objects posted as media", async () => {
+      const storage = createStorage();
+      const graffiti = new GraffitiLocal({
+        storage,
+        quotas: { maxBytesPerActor: 100 },
+      });
+
+      const value = { hash: randomBase64(), type: "text/plain", size: 1000 };
+      await graffiti.post<{}>({ value, channels: [] }, alice);
+      await expect(storage.usage(alice.actor)).resolves.toEqual({
+        objects: 1,
+        bytes: JSON.stringify(value).length,
+      });
+    });
+  },
+);
+
+describe("quotas", () => {
+  it("measures encrypted objects the same way in every storage", async () => {
+    const storages = [new GraffitiLocalMemoryStorage(), createPouchDBStorage()];
+    const usages: { objects: number; bytes: number }[] = [];
+    for (const storage of storages) {
+      const graffiti = new GraffitiLocal({
+        storage,
+        encryption: { passphrase: "correct horse battery staple" },
+        quotas: { maxBytesPerActor: 400 },
+      });
+      const channels = [randomBase64()];
+      await graffiti.postMedia({ data: new Blob(["x".repeat(100)]) }, alice);
+      let posted = 0;
+      while (posted < 10) {
+        try {
+          await graffiti.post<{}>({ value: { posted }, channels }, alice);
+        } catch (error) {
+          expect(error).toBeInstanceOf(GraffitiErrorTooLarge);
+          break;
+        }
+        posted++;
+      }
+      const usage = await storage.usage(alice.actor);
+      // Quotas count the ciphertext that storage reports
+      expect(usage.bytes).toBeLessThanOrEqual(400);
+      expect(usage.objects).toBe(posted + 1);
+      usages.push(usage);
+    }
+    expect(usages[1]).toEqual(usages[0]);
+  });
+
+  it("limits the size of values and media", async () => {
+    const graffiti = new GraffitiLocal({
+      storage: new GraffitiLocalMemoryStorage(),
+      quotas: { maxValueBytes: 10, maxMediaBytes: 4 },
+    });
+    await expect(
+      graffiti.post<{}>({ value: { a: "long" }, channels: [] }, alice),
+    ).rejects.toThrow(GraffitiErrorTooLarge);
+    await graffiti.post<{}>({ value: { a: 1 }, channels: [] }, alice);
+
+    await expect(
+      graffiti.postMedia({ data: new Blob(["hello"]) }, alice),
+    ).rejects.toThrow(GraffitiErrorTooLarge);
+    let pulled = 0;
+    const data = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++;
+        controller.enqueue(new Uint8Array(3));
+      },
+    });
+    await expect(
+      graffiti.postMediaStream({ data, type: "text/plain" }, alice),
+    ).rejects.toThrow(GraffitiErrorTooLarge);
+    expect(pulled).toBeLessThan(5);
+  });
+
+  it("limits how often each actor posts", async () => {
+    const graffiti = new GraffitiLocal({
+      storage: new GraffitiLocalMemoryStorage(),
+      quotas: { maxPostsPerWindow: 2, postWindow: 50 },
+    });
+    const post = (session: typeof alice) =>
+      graffiti.post<{}>({ value: {}, channels: [] }, session);
+
+    await post(alice);
+    await post(alice);
+    const error = await post(alice).catch((e) => e);
+    expect(error).toBeInstanceOf(GraffitiLocalErrorRateLimited);
+    expect(error.retryAfter).toBeGreaterThan(0);
+    await post(bob);
+
+    await new Promise((resolve) => setTimeout(resolve, error.retryAfter + 5));
+    await post(alice);
+  });
+
+  it("counts post rates with the injected clock", async () => {
+    let time = 0;
+    const graffiti = new GraffitiLocal({
+      storage: new GraffitiLocalMemoryStorage(),
+      quotas: { maxPostsPerWindow: 1, postWindow: 1000 },
+      now: () => time,
+    });
+    const post = () => graffiti.post<{}>({ value: {}, channels: [] }, alice);
+
+    await post();
+    time = 400;
+    const error = await post().catch((e) => e);
+    expect(error).toBeInstanceOf(GraffitiLocalErrorRateLimited);
+    expect(error.retryAfter).toBe(600);
+    time = 1000;
+    await post();
+  });
+
+  it("doesn't count updates as posts", async () => {
+    const graffiti = new GraffitiLocal({
+      storage: new GraffitiLocalMemoryStorage(),
+      quotas: { maxPostsPerWindow: 1, postWindow: 60_000 },
+    });
+    const group = await graffiti.groups.create([], alice);
+    await graffiti.groups.add(group, [bob.actor], alice);
+    await graffiti.groups.remove(group, [bob.actor], alice);
+    await expect(
+      graffiti.post<{}>({ value: {}, channels: [] }, alice),
+    ).rejects.toThrow(GraffitiLocalErrorRateLimited);
+  });
+
+  it("only counts writes that succeed", async () => {
+    const storage = new GraffitiLocalMemoryStorage();
+    const graffiti = new GraffitiLocal({
+      storage,
+      quotas: { maxPostsPerWindow: 1 },
+    });
+    const put = storage.put.bind(storage);
+    storage.put = async () => {
+      throw new Error("Disk full");
+    };
+    await expect(
+      graffiti.post<{}>({ value: {}, channels: [] }, alice),
+    ).rejects.toThrow("Disk full");
+
+    storage.put = put;
+    await graffiti.post<{}>({ value: {}, channels: [] }, alice);
+  });
+
+  it("checks concurrent posts one at a time", async () => {
+    const storage = new GraffitiLocalMemoryStorage();
+    const graffiti = new GraffitiLocal({
+      storage,
+      quotas: { maxObjectsPerActor: 2 },
+    });
+    const results = await Promise.allSettled(
+      Array.from({ length: 5 }, () =>
+        graffiti.post<{}>({ value: {}, channels: [] }, alice),
+      ),
+    );
+    expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(2);
+    await expect(storage.usage(alice.actor)).resolves.toMatchObject({
+      objects: 2,
+    });
+  });
+
+  it("checks updates to existing objects", async () => {
+    const graffiti = new GraffitiLocal({
+      storage: new GraffitiLocalMemoryStorage(),
+      quotas: { maxValueBytes: 80 },
+    });
+    const group = await graffiti.groups.create([bob.actor], alice);
+    await expect(
+      graffiti.groups.add(group, ["did:example:" + "x".repeat(80)], alice),
+    ).rejects.toThrow(GraffitiErrorTooLarge);
+    await expect(graffiti.groups.members(group, alice)).resolves.toEqual([
+      bob.actor,
+    ]);
+  });
+});
@@ -0,0 +1,239 @@
+import { GraffitiErrorTooLarge } from "@graffiti-garden/api";
+import {
+  storedBytes,
+  valueBytes,
+  type GraffitiLocalStorage,
+  type GraffitiLocalStoredObject,
+} from "./storage.js";
+
+/**
+ * Limits on what each actor can write, to keep one runaway
+ * client from filling a database that is shared with others.
+ * Every limit is unset, and so unlimited, by default.
+ */
+export interface GraffitiLocalQuotaOptions {
+  /**
+   * The largest object value, in bytes of JSON.
+   */
+  maxValueBytes?: number;
+  /**
+   * The largest media file, in bytes.
+   */
+  maxMediaBytes?: number;
+  /**
+   * The most bytes of values and media an actor can store,
+   * not counting deleted objects.
+   */
+  maxBytesPerActor?: number;
+  /**
+   * The most objects an actor can store, not counting deleted ones.
+   */
+  maxObjectsPerActor?: number;
+  /**
+   * The most objects an actor can post per {@link postWindow}.
+   */
+  maxPostsPerWindow?: number;
+  /**
+   * The length of the window, in milliseconds, over which
+   * {@link maxPostsPerWindow} is counted. Defaults to 1 minute.
+   */
+  postWindow?: number;
+}
+
+const DEFAULT_POST_WINDOW = 60 * 1000;
+
+/**
+ * An object being written, as checked by {@link GraffitiLocalQuotas.write}.
+ */
+export interface GraffitiLocalQuotaWrite {
+  /**
+   * The object's value as it was given, before any encryption.
+   */
+  value: {};
+  /**
+   * The object as it will be stored.
+   */
+  stored: GraffitiLocalStoredObject;
+  /**
+   * The stored object it replaces, if it is an update.
+   */
+  replaced?: GraffitiLocalStoredObject;
+}
+
+/**
+ * Thrown when an actor posts more than
+ * {@link GraffitiLocalQuotaOptions.maxPostsPerWindow}.
+ */
+export class GraffitiLocalErrorRateLimited extends Error {
+  /**
+   * How long to wait, in milliseconds, before posting again.
+   */
+  readonly retryAfter: number;
+
+  constructor(message: string | undefined, retryAfter: number) {
+    super(message);
+    this.name = "GraffitiLocalErrorRateLimited";
+    this.retryAfter = retryAfter;
+    Object.setPrototypeOf(this, GraffitiLocalErrorRateLimited.prototype);
+  }
+}
+
+/**
+ * Enforces {@link GraffitiLocalQuotaOptions} when objects
+ * and media are written. Storage quotas are counted from
+ * the database, so they hold across every client that shares it,
+ * while post rates are counted by each client.
+ */
+export class GraffitiLocalQuotas {
+  protected storage: GraffitiLocalStorage;
+  protected options: GraffitiLocalQuotaOptions;
+  protected now: () => number;
+  protected windows = new Map<string, { start: number; posts: number }>();
+  /**
+   * The last write queued by each actor.
+   */
+  protected writes = new Map<string, Promise<unknown>>();
+
+  /**
+   * @param now Returns the current time in milliseconds, against
+   * which post rates are counted. Defaults to `Date.now`.
+   */
+  constructor(
+    storage: GraffitiLocalStorage,
+    options?: GraffitiLocalQuotaOptions,
+    now?: () => number,
+  ) {
+    this.storage = storage;
+    this.options = options ?? {};
+    this.now = now ?? Date.now;
+  }
+
+  /**
+   * Throws {@link GraffitiErrorTooLarge} if a media
+   * file of `size` bytes would be too large.
+   */
+  checkMedia(size: number) {
+    const { maxMediaBytes } = this.options;
+    if (maxMediaBytes !== undefined && size > maxMediaBytes) {
+      throw new GraffitiErrorTooLarge(
+        `Media cannot be larger than ${maxMediaBytes} bytes`,
+      );
+    }
+  }
+
+  /**
+   * Calls `write` to store an object for `actor` if that keeps
+   * them within their quotas, and once it succeeds counts it towards
+   * their post rate. Stored bytes are measured like
+   * {@link GraffitiLocalStorage.usage}, after any encryption.
+   * If the object replaces another, it is not a post: it does not
+   * count as another object or towards the post rate,
+   * and only the difference in bytes counts.
+   *
+   * Writes by the same actor are checked one at a time,
+   * so concurrent ones can't exceed a quota together.
+   *
+   * @throws {@link GraffitiErrorTooLarge} if the value or
+   * the actor's stored data would be too large.
+   * @throws {@link GraffitiLocalErrorRateLimited} if
+   * they are posting too often.
+   */
+  write<T>(
+    actor: string,
+    object: GraffitiLocalQuotaWrite,
+    write: () => Promise<T>,
+  ): Promise<T> {
+    const { maxBytesPerActor, maxObjectsPerActor, maxPostsPerWindow } =
+      this.options;
+    const checkWrite = () => this.checkWrite(actor, object, write);
+    // Only writes whose quotas depend on earlier writes need to wait
+    if (
+      maxBytesPerActor === undefined &&
+      maxObjectsPerActor === undefined &&
+      maxPostsPerWindow === undefined
+    ) {
+      return checkWrite();
+    }
+
+    const previous = this.writes.get(actor) ?? Promise.resolve();
+    const result = previous.then(checkWrite);
+    const settled = result.catch(() => {});
+    this.writes.set(actor, settled);
+    settled.then(() => {
+      if (this.writes.get(actor) === settled) this.writes.delete(actor);
+    });
+    return result;
+  }
+
+  protected async checkWrite<T>(
+    actor: string,
+    { value, stored, replaced }: GraffitiLocalQuotaWrite,
+    write: () => Promise<T>,
+  ): Promise<T> {
+    const {
+      maxValueBytes,
+      maxBytesPerActor,
+      maxObjectsPerActor,
+      maxPostsPerWindow,
+    } = this.options;
+
+    if (maxValueBytes !== undefined && valueBytes(value) > maxValueBytes) {
+      throw new GraffitiErrorTooLarge(
+        `Object values cannot be larger than ${maxValueBytes} bytes`,
+      );
+    }
+
+    const postWindow = this.options.postWindow ?? DEFAULT_POST_WINDOW;
+    const window = (now: number) => {
+      const window = this.windows.get(actor);
+      return window && now - window.start < postWindow
+        ? window
+        : { start: now, posts: 0 };
+    };
+    const now = this.now();
+    const current = window(now);
+    if (
+      !replaced &&
+      maxPostsPerWindow !== undefined &&
+      current.posts >= maxPostsPerWindow
+    ) {
+      throw new GraffitiLocalErrorRateLimited(
+        `Cannot post more than ${maxPostsPerWindow} objects every ${postWindow} ms`,
+        current.start + postWindow - now,
+      );
+    }
+
+    if (maxBytesPerActor !== undefined || maxObjectsPerActor !== undefined) {
+      const usage = await this.storage.usage(actor);
+      if (
+        maxObjectsPerActor !== undefined &&
+        !replaced &&
+        usage.objects >= maxObjectsPerActor
+      ) {
+        throw new GraffitiErrorTooLarge(
+          `Cannot store more than ${maxObjectsPerActor} objects`,
+        );
+      }
+      const added =
+        storedBytes(stored) - (replaced ? storedBytes(replaced) : 0);
+      if (
+        maxBytesPerActor !== undefined &&
+        added > 0 &&
+        usage.bytes + added > maxBytesPerActor
+      ) {
+        throw new GraffitiErrorTooLarge(
+          `Cannot store more than ${maxBytesPerActor} bytes`,
+        );
+      }
+    }
+
+    const result = await write();
+    if (!replaced) {
+      // The window may have moved on while writing
+      const written = window(this.now());
+      written.posts++;
+      this.windows.set(actor, written);
+    }
+    return result;
+  }
+}
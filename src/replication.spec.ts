@@ -0,0 +1,157 @@
+import { tmpdir } from "node:os";
+import { sep } from "node:path";
+import { describe, it, expect, assert } from "vitest";
+import { GraffitiLocal } from "./index";
+import { randomBase64 } from "./utilities";
+import { tempDbName, tempPouchDBStorages } from "./test-utilities";
+import type {
+  GraffitiLocalReplicationOptions,
+  GraffitiLocalReplicationProgressEvent,
+} from "./replication";
+
+const session = { actor: "did:example:someone" };
+const createStorage = tempPouchDBStorages("replication");
+
+function useGraffiti() {
+  const name = tempDbName("replication");
+  const storage = createStorage({ name });
+  return {
+    name,
+    storage,
+    graffiti: new GraffitiLocal({
+      storage,
+      purgeInterval: 0,
+      continueBuffer: 0,
+    }),
+  };
+}
+
+async function replicateOnce(
+  graffiti: GraffitiLocal,
+  remote: string | PouchDB.Database,
+  options?: GraffitiLocalReplicationOptions,
+) {
+  const id = await graffiti.replication.start(remote, {
+    ...options,
+    live: false,
+  });
+  await new Promise<void>((resolve) => {
+    const listener = (event: Event) => {
+      const { detail } = event as GraffitiLocalReplicationProgressEvent;
+      if (detail.id === id && detail.state === "complete") {
+        graffiti.replication.events.removeEventListener("progress", listener);
+        resolve();
+      }
+    };
+    graffiti.replication.events.addEventListener("progress", listener);
+  });
+  return graffiti.replication.status(id);
+}
+
+describe("replication", () => {
+  it("syncs objects and resolves conflicting deletes", async () => {
+    const laptop = useGraffiti();
+    const phone = useGraffiti();
+    const channels = [randomBase64()];
+
+    const posted = await laptop.graffiti.post<{}>(
+      { value: { hello: "world" }, channels },
+      session,
+    );
+    await replicateOnce(laptop.graffiti, phone.name);
+    await expect(
+      phone.graffiti.get(posted, {}, session),
+    ).resolves.toHaveProperty("value", { hello: "world" });
+
+    // Delete on both devices before syncing again
+    await laptop.graffiti.delete(posted, session);
+    await phone.graffiti.delete(posted, session);
+    const status = await replicateOnce(laptop.graffiti, phone.name);
+    expect(status?.conflictsResolved).toBeGreaterThan(0);
+
+    await expect(phone.graffiti.get(posted, {}, session)).rejects.toThrow();
+    await expect(laptop.graffiti.get(posted, {}, session)).rejects.toThrow();
+  });
+
+  it("continues discovers with objects replicated in later", async () => {
+    const laptop = useGraffiti();
+    const phone = useGraffiti();
+    const channels = [randomBase64()];
+
+    // Written on the phone before the laptop starts discovering
+    const posted = await phone.graffiti.post<{}>(
+      { value: {}, channels },
+      session,
+    );
+
+    const iterator = laptop.graffiti.discover<{}>(channels, {}, session);
+    const result = await iterator.next();
+    assert(result.done);
+
+    await replicateOnce(laptop.graffiti, phone.name);
+
+    const continued = laptop.graffiti.continueDiscover<{}>(
+      result.value.cursor,
+      session,
+    );
+    const next = await continued.next();
+    assert(!next.done && !next.value.error && !next.value.tombstone);
+    expect(next.value.object.url).toBe(posted.url);
+  });
+
+  it("resolves conflicts pushed to the remote", async () => {
+    const laptop = useGraffiti();
+    const phone = useGraffiti();
+    const posted = await laptop.graffiti.post<{}>(
+      { value: {}, channels: [] },
+      session,
+    );
+    await replicateOnce(laptop.graffiti, phone.name);
+
+    await laptop.graffiti.delete(posted, session);
+    await phone.graffiti.delete(posted, session);
+    const status = await replicateOnce(laptop.graffiti, phone.name, {
+      direction: "push",
+    });
+    expect(status?.conflictsResolved).toBeGreaterThan(0);
+    const stored = await (
+      await phone.storage.db
+    ).get(posted.url, { conflicts: true });
+    expect(stored._conflicts ?? []).toEqual([]);
+  });
+
+  it("replicates media with a database instance as the remote", async () => {
+    const laptop = useGraffiti();
+    const phone = useGraffiti();
+    const data = new Blob([randomBase64()], { type: "text/plain" });
+    const url = await laptop.graffiti.postMedia({ data }, session);
+
+    await replicateOnce(laptop.graffiti, await phone.storage.db);
+    const { data: read } = await phone.graffiti.getMedia(url, {}, session);
+    expect(await read.text()).toBe(await data.text());
+  });
+
+  it("opens remotes given by name with the remote options", async () => {
+    const laptop = useGraffiti();
+    // A name that only reaches the database with its prefix
+    const name = `graffitiDb-replication-${randomBase64(8)}`;
+    const prefix = tmpdir() + sep;
+    const phone = new GraffitiLocal({
+      storage: createStorage({ name, prefix }),
+      purgeInterval: 0,
+    });
+    const posted = await laptop.graffiti.post<{}>(
+      { value: {}, channels: [] },
+      session,
+    );
+    const data = new Blob([randomBase64()], { type: "text/plain" });
+    const url = await laptop.graffiti.postMedia({ data }, session);
+
+    await replicateOnce(laptop.graffiti, name, {
+      remoteOptions: { prefix },
+    });
+    await expect(phone.get(posted, {})).resolves.toBeDefined();
+    const { data: read } = await phone.getMedia(url, {}, session);
+    expect(await read.text()).toBe(await data.text());
+  });
+});
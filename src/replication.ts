@@ -0,0 +1,409 @@
+import type { GraffitiLocalObjects, GraffitiObjectData } from "./objects.js";
+import { randomBase64 } from "./utilities.js";
+import { lastModifiedKey } from "./clock.js";
+import {
+  GraffitiLocalPouchDBStorage,
+  companionName,
+} from "./storage-pouchdb.js";
+
+export type GraffitiLocalReplicationDirection = "push" | "pull" | "sync";
+
+export interface GraffitiLocalReplicationOptions {
+  /**
+   * Whether to only send local changes to the remote (`"push"`),
+   * only receive changes from the remote (`"pull"`) or
+   * both (`"sync"`). Defaults to `"sync"`.
+   */
+  direction?: GraffitiLocalReplicationDirection;
+  /**
+   * Whether to keep replicating changes as they happen
+   * rather than stopping after the databases are in sync.
+   * Defaults to `true`.
+   */
+  live?: boolean;
+  /**
+   * Whether to keep retrying if the remote goes offline.
+   * Only applies to live replication. Defaults to `true`.
+   */
+  retry?: boolean;
+  /**
+   * Where to replicate media bytes to and from. Defaults to the
+   * remote's companion media database, `<remote>-media`.
+   */
+  mediaRemote?: string | PouchDB.Database;
+  /**
+   * Options, like `auth` or `fetch`, with which to open the remote
+   * and its companion media database when they are given by name or URL.
+   * Databases passed as instances are used as they are.
+   */
+  remoteOptions?: PouchDB.Configuration.DatabaseConfiguration;
+}
+
+export interface GraffitiLocalReplicationStatus {
+  id: string;
+  remote: string;
+  direction: GraffitiLocalReplicationDirection;
+  state: "active" | "paused" | "complete" | "stopped" | "error";
+  docsRead: number;
+  docsWritten: number;
+  conflictsResolved: number;
+  error?: Error;
+}
+
+/**
+ * Dispatched on {@link GraffitiLocalReplication.events} whenever a
+ * replication makes progress or changes state.
+ */
+export type GraffitiLocalReplicationProgressEvent =
+  CustomEvent<GraffitiLocalReplicationStatus>;
+
+/**
+ * Dispatched on {@link GraffitiLocalReplication.events} when
+ * a replication fails or the remote denies a write.
+ */
+export type GraffitiLocalReplicationErrorEvent = CustomEvent<{
+  id: string;
+  error: Error;
+}>;
+
+type StoredObject = PouchDB.Core.ExistingDocument<GraffitiObjectData>;
+
+/**
+ * Picks which of two conflicting revisions of the same object wins:
+ * the latest `lastModified`, then the tombstone on ties.
+ * Returns a positive number if `a` wins, negative if `b` wins
+ * and zero if neither is preferred.
+ */
+export function compareObjectRevisions(
+  a: GraffitiObjectData,
+  b: GraffitiObjectData,
+): number {
+  const aLastModified = lastModifiedKey(a.lastModified);
+  const bLastModified = lastModifiedKey(b.lastModified);
+  if (aLastModified !== bLastModified) {
+    return aLastModified > bLastModified ? 1 : -1;
+  }
+  return Number(a.tombstone) - Number(b.tombstone);
+}
+
+/**
+ * Opens a database by name or URL, unless it is already open.
+ */
+async function openRemote(
+  remote: string | PouchDB.Database,
+  options?: PouchDB.Configuration.DatabaseConfiguration,
+): Promise<PouchDB.Database> {
+  if (typeof remote !== "string") return remote;
+  const { default: PouchDB } = await import("pouchdb");
+  return new PouchDB(remote, options);
+}
+
+/**
+ * Replicates the objects in a {@link GraffitiLocalObjects} database
+ * with another PouchDB database or a remote CouchDB server,
+ * so that multiple devices can converge without a Graffiti server.
+ *
+ * Replication requires the {@link GraffitiLocalPouchDBStorage} adapter,
+ * and media bytes are replicated along with the objects.
+ * Conflicting revisions of the same object are resolved
+ * by {@link compareObjectRevisions} in whichever database
+ * they are replicated into.
+ */
+export class GraffitiLocalReplication {
+  protected objects: Pick<
+    GraffitiLocalObjects,
+    "storage" | "clock" | "revisionLimit"
+  >;
+  protected replications = new Map<
+    string,
+    {
+      status: GraffitiLocalReplicationStatus;
+      handle: { cancel(): void };
+    }
+  >();
+
+  /**
+   * Emits {@link GraffitiLocalReplicationProgressEvent | `progress`}
+   * and {@link GraffitiLocalReplicationErrorEvent | `error`} events.
+   */
+  events = new EventTarget();
+
+  constructor(
+    objects: Pick<GraffitiLocalObjects, "storage" | "clock" | "revisionLimit">,
+  ) {
+    this.objects = objects;
+  }
+
+  protected get pouchDBStorage() {
+    const { storage } = this.objects;
+    if (!(storage instanceof GraffitiLocalPouchDBStorage)) {
+      throw new Error("Replication requires the PouchDB storage adapter");
+    }
+    return storage;
+  }
+
+  protected get db() {
+    try {
+      return this.pouchDBStorage.db;
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+
+  /**
+   * Starts replicating with `remote`, which can be another PouchDB
+   * database or the name or URL of one.
+   *
+   * @returns An identifier for the replication that can be passed to
+   * {@link stop} and {@link status}.
+   */
+  start = async (
+    remote: string | PouchDB.Database,
+    options?: GraffitiLocalReplicationOptions,
+  ): Promise<string> => {
+    const db = await this.db;
+    const direction = options?.direction ?? "sync";
+    const live = options?.live ?? true;
+    const replicateOptions: PouchDB.Replication.ReplicateOptions = {
+      live,
+      retry: live && (options?.retry ?? true),
+      // Each database maintains its own design documents
+      filter: (doc: { _id: string }) => !doc._id.startsWith("_design/"),
+    };
+
+    const id = randomBase64(8);
+    const status: GraffitiLocalReplicationStatus = {
+      id,
+      remote: typeof remote === "string" ? remote : remote.name,
+      direction,
+      state: "active",
+      docsRead: 0,
+      docsWritten: 0,
+      conflictsResolved: 0,
+    };
+
+    const replicate = (
+      from: PouchDB.Database,
+      to: string | PouchDB.Database,
+      options: PouchDB.Replication.ReplicateOptions,
+    ): PouchDB.Replication.ReplicationEventEmitter<{}, {}, {}> &
+      Promise<unknown> =>
+      direction === "push"
+        ? from.replicate.to(to, options)
+        : direction === "pull"
+          ? from.replicate.from(to, options)
+          : from.sync(to, options);
+    const { remoteOptions } = options ?? {};
+    // Also where pushed conflicts are resolved
+    const remoteDb = (await openRemote(
+      remote,
+      remoteOptions,
+    )) as PouchDB.Database<GraffitiObjectData>;
+    const handle = replicate(db, remoteDb, replicateOptions);
+
+    // Media bytes live in a companion database
+    const mediaRemote = await openRemote(
+      options?.mediaRemote ?? companionName(remoteDb.name, "-media"),
+      remoteOptions,
+    );
+    const mediaHandle = replicate(
+      await this.pouchDBStorage.mediaDb,
+      mediaRemote,
+      { live: replicateOptions.live, retry: replicateOptions.retry },
+    );
+    mediaHandle
+      .on("denied", (error) => this.dispatchError(id, error))
+      .on("error", (error) => this.dispatchError(id, error));
+    const mediaDone = mediaHandle.catch(() => {});
+
+    this.replications.set(id, {
+      status,
+      handle: {
+        cancel: () => {
+          handle.cancel();
+          mediaHandle.cancel();
+        },
+      },
+    });
+
+    // Resolve conflicts one batch at a time and
+    // only report completion once they are all resolved
+    let resolving = Promise.resolve();
+    const onChange = async (
+      pulled: boolean,
+      change: PouchDB.Replication.ReplicationResult<{}>,
+    ) => {
+      status.docsRead += change.docs_read;
+      status.docsWritten += change.docs_written;
+      for (const doc of change.docs) {
+        // Order anything written next after what was pulled in
+        if (pulled && "lastModified" in doc) {
+          this.objects.clock.receive((doc as StoredObject).lastModified);
+        }
+        try {
+          if (await this.resolveConflicts(pulled ? db : remoteDb, doc._id)) {
+            status.conflictsResolved++;
+          }
+        } catch (error) {
+          this.dispatchError(id, error);
+        }
+      }
+      this.dispatchProgress(status);
+    };
+
+    handle
+      .on("change", (info: {}) => {
+        resolving = resolving.then(() => {
+          if ("direction" in info) {
+            const { direction, change } =
+              info as PouchDB.Replication.SyncResult<{}>;
+            return onChange(direction === "pull", change);
+          } else {
+            return onChange(
+              direction === "pull",
+              info as PouchDB.Replication.ReplicationResult<{}>,
+            );
+          }
+        });
+      })
+      .on("active", () => {
+        status.state = "active";
+        this.dispatchProgress(status);
+      })
+      .on("paused", (error) => {
+        status.state = "paused";
+        if (error) this.dispatchError(id, error);
+        this.dispatchProgress(status);
+      })
+      .on("complete", async () => {
+        await Promise.all([resolving, mediaDone]);
+        if (status.state !== "stopped") status.state = "complete";
+        this.dispatchProgress(status);
+      })
+      .on("denied", (error) => {
+        this.dispatchError(id, error);
+      })
+      .on("error", (error) => {
+        status.state = "error";
+        this.dispatchError(id, error);
+        this.dispatchProgress(status);
+      });
+    // Errors are reported through events
+    handle.catch(() => {});
+
+    return id;
+  };
+
+  /**
+   * Stops a replication started with {@link start}.
+   */
+  stop = (id: string) => {
+    const replication = this.replications.get(id);
+    if (!replication) {
+      throw new Error(`No replication with id ${id}`);
+    }
+    replication.status.state = "stopped";
+    replication.handle.cancel();
+  };
+
+  /**
+   * Returns the current status of a replication,
+   * or `undefined` if there is no replication with that id.
+   */
+  status = (id: string): GraffitiLocalReplicationStatus | undefined => {
+    const status = this.replications.get(id)?.status;
+    return status ? { ...status } : undefined;
+  };
+
+  /**
+   * Returns the status of every replication that has been started.
+   */
+  list = (): GraffitiLocalReplicationStatus[] => {
+    return Array.from(this.replications.values()).map(({ status }) => ({
+      ...status,
+    }));
+  };
+
+  /**
+   * If replication left multiple revisions of an object in `db`,
+   * keeps the one preferred by {@link compareObjectRevisions}
+   * and removes the others.
+   *
+   * @returns Whether any conflicts were resolved.
+   */
+  protected async resolveConflicts(
+    db: PouchDB.Database<GraffitiObjectData>,
+    url: string,
+  ): Promise<boolean> {
+    if (url.startsWith("_design/")) return false;
+
+    let current: StoredObject & PouchDB.Core.GetMeta;
+    try {
+      current = await db.get(url, { conflicts: true });
+    } catch {
+      return false;
+    }
+    const conflicts = current._conflicts ?? [];
+    if (!conflicts.length) return false;
+
+    const revisions: StoredObject[] = [
+      current,
+      ...(await Promise.all(conflicts.map((rev) => db.get(url, { rev })))),
+    ];
+    // Prefer the current revision on ties so that
+    // nothing needs to be rewritten
+    const winner = revisions.reduce((best, revision) =>
+      compareObjectRevisions(revision, best) > 0 ? revision : best,
+    );
+
+    // Keep the losing revisions in the object's history
+    const { storage, revisionLimit } = this.objects;
+    if (revisionLimit > 0) {
+      for (const revision of revisions) {
+        if (revision === winner) continue;
+        const { _id, _rev, _conflicts, ...data } = revision as StoredObject &
+          PouchDB.Core.GetMeta;
+        await storage.keepRevision(
+          { ...data, url: _id, rev: _rev },
+          revisionLimit,
+        );
+      }
+    }
+
+    const writes: PouchDB.Core.PutDocument<GraffitiObjectData>[] =
+      conflicts.map(
+        (rev) =>
+          ({
+            _id: url,
+            _rev: rev,
+            _deleted: true,
+          }) as PouchDB.Core.PutDocument<GraffitiObjectData>,
+      );
+    if (winner !== current) {
+      const { _id, _rev, _conflicts, ...data } = winner as StoredObject &
+        PouchDB.Core.GetMeta;
+      writes.push({ ...data, _id: url, _rev: current._rev });
+    }
+    await db.bulkDocs(writes);
+    return true;
+  }
+
+  protected dispatchProgress(status: GraffitiLocalReplicationStatus) {
+    const event: GraffitiLocalReplicationProgressEvent = new CustomEvent(
+      "progress",
+      { detail: { ...status } },
+    );
+    this.events.dispatchEvent(event);
+  }
+
+  protected dispatchError(id: string, error: unknown) {
+    const replication = this.replications.get(id);
+    const normalized =
+      error instanceof Error ? error : new Error(JSON.stringify(error));
+    if (replication) replication.status.error = normalized;
+    const event: GraffitiLocalReplicationErrorEvent = new CustomEvent("error", {
+      detail: { id, error: normalized },
+    });
+    this.events.dispatchEvent(event);
+  }
+}
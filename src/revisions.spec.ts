@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { GraffitiErrorNotFound } from "@graffiti-garden/api";
+import { GraffitiLocal, GraffitiLocalMemoryStorage } from "./index";
+import { randomBase64 } from "./utilities";
+
+const alice = { actor: "did:example:alice" };
+const bob = { actor: "did:example:bob" };
+const eve = { actor: "did:example:eve" };
+
+describe("revisions", () => {
+  it("reads earlier revisions with the same access checks as get", async () => {
+    const graffiti = new GraffitiLocal({
+      storage: new GraffitiLocalMemoryStorage(),
+    });
+    const channels = [randomBase64()];
+    const posted = await graffiti.post<{}>(
+      { value: { text: "hello" }, channels, allowed: [bob.actor] },
+      alice,
+    );
+    const postedAt = Date.now();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await graffiti.delete(posted, alice);
+
+    const revisions = await graffiti.revisions(posted, alice);
+    expect(revisions.map((r) => r.tombstone)).toEqual([false, true]);
+    await expect(graffiti.revisions(posted, eve)).rejects.toThrow(
+      GraffitiErrorNotFound,
+    );
+
+    const [original, tombstone] = revisions;
+    await expect(
+      graffiti.getRevision(posted, { rev: original.rev }, {}, alice),
+    ).resolves.toMatchObject({
+      value: { text: "hello" },
+      channels,
+      allowed: [bob.actor],
+      rev: original.rev,
+    });
+    // Only the owner sees the channels and allowed list
+    await expect(
+      graffiti.getRevision(posted, { asOf: postedAt }, {}, bob),
+    ).resolves.toMatchObject({ channels: [], allowed: [bob.actor] });
+    await expect(
+      graffiti.getRevision(posted, { rev: original.rev }, {}, eve),
+    ).rejects.toThrow(GraffitiErrorNotFound);
+    await expect(
+      graffiti.getRevision(posted, { rev: tombstone.rev }, {}, alice),
+    ).rejects.toThrow(GraffitiErrorNotFound);
+    await expect(
+      graffiti.getRevision(posted, { asOf: postedAt - 60_000 }, {}, alice),
+    ).rejects.toThrow(GraffitiErrorNotFound);
+  });
+
+  it("keeps at most the configured number of revisions", async () => {
+    const storage = new GraffitiLocalMemoryStorage();
+    const graffiti = new GraffitiLocal({ storage, revisionLimit: 0 });
+    const posted = await graffiti.post<{}>({ value: {}, channels: [] }, alice);
+    await graffiti.delete(posted, alice);
+    await expect(graffiti.revisions(posted, alice)).resolves.toHaveLength(1);
+
+    const object = (await storage.get(posted.url))!;
+    for (const lastModified of ["1", "2", "3"]) {
+      await storage.keepRevision(
+        { ...object, lastModified, rev: `${lastModified}-x` },
+        2,
+      );
+    }
+    const kept = await storage.revisions(posted.url);
+    expect(kept.map(({ rev }) => rev)).toEqual(["2-x", "3-x"]);
+  });
+});
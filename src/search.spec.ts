@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  GraffitiLocal,
+  GraffitiLocalMemoryStorage,
+  type GraffitiLocalStorage,
+} from "./index";
+import { randomBase64 } from "./utilities";
+import { tempPouchDBStorages } from "./test-utilities";
+
+const session1 = { actor: "did:example:someone" };
+const session2 = { actor: "did:example:someoneelse" };
+
+const createPouchDBStorage = tempPouchDBStorages("search");
+
+describe.each([
+  ["memory", () => new GraffitiLocalMemoryStorage()],
+  ["PouchDB", () => createPouchDBStorage()],
+] as [string, () => GraffitiLocalStorage][])(
+  "search with %s storage",
+  (_, createStorage) => {
+    it("ranks matches and keeps up with deletes", async () => {
+      const graffiti = new GraffitiLocal({ storage: createStorage() });
+      const channels = [randomBase64()];
+      const post = (value: {}) =>
+        graffiti.post<{}>({ value, channels }, session1);
+
+      const both = await post({ title: "Café notes", body: "the café" });
+      const one = await post({ tags: ["notes"] });
+      const older = await post({ body: "CAFE" });
+      const newer = await post({ body: "cafe" });
+      await post({ body: "unrelated" });
+      await graffiti.post<{}>(
+        { value: { body: "cafe notes" }, channels: [randomBase64()] },
+        session1,
+      );
+
+      const results = await graffiti.search(channels, "cafe, notes", session1);
+      expect(results.map(({ object }) => object.url)).toEqual([
+        both.url,
+        newer.url,
+        older.url,
+        one.url,
+      ]);
+      expect(results[0].object).toEqual(both);
+
+      await graffiti.delete(both, session1);
+      const limited = await graffiti.search(channels, "café", session1, {
+        limit: 1,
+      });
+      expect(limited.map(({ object }) => object.url)).toEqual([newer.url]);
+    });
+
+    it("applies the same access rules as discover", async () => {
+      const graffiti = new GraffitiLocal({ storage: createStorage() });
+      const channels = [randomBase64(), randomBase64()];
+      const value = { text: "secret plans" };
+      const hidden = await graffiti.post<{}>(
+        { value, channels, allowed: [] },
+        session1,
+      );
+      const shared = await graffiti.post<{}>(
+        { value, channels, allowed: [session2.actor] },
+        session1,
+      );
+
+      const own = await graffiti.search(channels, "plans", session1);
+      expect(own.map(({ object }) => object.url).sort()).toEqual(
+        [hidden.url, shared.url].sort(),
+      );
+
+      const other = await graffiti.search([channels[0]], "plans", session2);
+      expect(other.map(({ object }) => object)).toEqual([
+        { ...shared, channels: [channels[0]], allowed: [session2.actor] },
+      ]);
+      expect(await graffiti.search(channels, "plans")).toEqual([]);
+    });
+  },
+);
+
+describe("search with encryption", () => {
+  it("finds encrypted objects without indexing their values", async () => {
+    const graffiti = new GraffitiLocal({
+      storage: new GraffitiLocalMemoryStorage(),
+      encryption: { passphrase: "correct horse battery staple" },
+    });
+    const channels = [randomBase64()];
+    const posted = await graffiti.post<{}>(
+      { value: { text: "hidden treasure" }, channels },
+      session1,
+    );
+    await graffiti.post<{}>({ value: { text: "nothing" }, channels }, session1);
+
+    const results = await graffiti.search(channels, "treasure", session1);
+    expect(results.map(({ object }) => object)).toEqual([posted]);
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  graffitiCRUDTests,
+  graffitiDiscoverTests,
+  graffitiMediaTests,
+} from "@graffiti-garden/api/tests";
+import {
+  GraffitiErrorNotAcceptable,
+  GraffitiErrorNotFound,
+} from "@graffiti-garden/api";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  GraffitiLocal,
+  GraffitiLocalClient,
+  GraffitiLocalMemoryStorage,
+} from "./index";
+import { GraffitiLocalServer } from "./server";
+import { randomBase64 } from "./utilities";
+
+const useSession1 = () => ({ actor: "did:example:someone" });
+const useSession2 = () => ({ actor: "did:example:someoneelse" });
+
+const graffiti = new GraffitiLocal({
+  storage: new GraffitiLocalMemoryStorage(),
+});
+const server = createServer(new GraffitiLocalServer(graffiti).handle);
+let url: string;
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+afterAll(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+describe("Client over loopback", () => {
+  const useGraffiti = () => new GraffitiLocalClient({ url });
+  graffitiCRUDTests(useGraffiti, useSession1, useSession2);
+  graffitiDiscoverTests(useGraffiti, useSession1, useSession2);
+  graffitiMediaTests(useGraffiti, useSession1, useSession2);
+});
+
+describe("Server", () => {
+  const session = useSession1();
+
+  it("streams discover results as server-sent events", async () => {
+    const channels = [randomBase64()];
+    const posted = await graffiti.post<{}>(
+      { value: { hello: "world" }, channels },
+      session,
+    );
+    const search = new URLSearchParams({ channels: JSON.stringify(channels) });
+    const response = await fetch(`${url}/discover?${search}`, {
+      headers: { Accept: "text/event-stream" },
+    });
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+    const events = (await response.text())
+      .trim()
+      .split("\n\n")
+      .map((event) => event.match(/^event: (\w+)\ndata: (.*)$/)!.slice(1));
+    expect(events).toHaveLength(2);
+    expect(events[0][0]).toBe("entry");
+    expect(JSON.parse(events[0][1])).toEqual({ object: posted });
+    expect(events[1][0]).toBe("cursor");
+  });
+
+  it("negotiates media types and reports errors", async () => {
+    const mediaUrl = await graffiti.postMedia(
+      { data: new Blob(["<p>hi</p>"], { type: "text/html" }) },
+      session,
+    );
+    const path = `${url}/media/${encodeURIComponent(mediaUrl)}`;
+
+    const response = await fetch(path, {
+      headers: { Accept: "text/plain, text/*;q=0.5" },
+    });
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("text/html");
+    expect(response.headers.get("Graffiti-Media-Actor")).toBe(
+      encodeURIComponent(session.actor),
+    );
+    expect(await response.text()).toBe("<p>hi</p>");
+
+    const rejected = await fetch(path, { headers: { Accept: "image/*" } });
+    expect(rejected.status).toBe(406);
+    await expect(rejected.json()).resolves.toMatchObject({
+      name: new GraffitiErrorNotAcceptable().name,
+    });
+
+    const missing = await fetch(`${url}/nowhere`);
+    expect(missing.status).toBe(404);
+    await expect(missing.json()).resolves.toMatchObject({
+      name: new GraffitiErrorNotFound().name,
+    });
+  });
+
+  it("hides the details of unexpected errors", async () => {
+    const errors: unknown[] = [];
+    const failing = createServer(
+      new GraffitiLocalServer(
+        {
+          ...graffiti,
+          get: async () => {
+            throw new Error("Disk on fire");
+          },
+        },
+        { onError: (error) => errors.push(error) },
+      ).handle,
+    );
+    await new Promise<void>((resolve) =>
+      failing.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = failing.address() as AddressInfo;
+    try {
+      const response = await fetch(
+        `http://127.0.0.1:${port}/objects/${encodeURIComponent("graffiti:a:b")}`,
+      );
+      expect(response.status).toBe(500);
+      await expect(response.json()).resolves.toEqual({
+        name: "Error",
+        message: "Internal server error",
+      });
+      expect(errors).toEqual([new Error("Disk on fire")]);
+    } finally {
+      failing.closeAllConnections();
+      failing.close();
+    }
+  });
+});
@@ -0,0 +1,318 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import Negotiator from "negotiator";
+import {
+  GraffitiErrorForbidden,
+  GraffitiErrorNotFound,
+  GraffitiErrorTooLarge,
+  type Graffiti,
+  type GraffitiMediaAccept,
+  type GraffitiObjectStream,
+  type GraffitiSession,
+} from "@graffiti-garden/api";
+import {
+  EVENT_STREAM,
+  MEDIA_ACTOR_HEADER,
+  MEDIA_ALLOWED_HEADER,
+  NDJSON,
+  SESSION_HEADER,
+  errorStatus,
+  isKnownError,
+  serializeEntry,
+  serializeError,
+  type GraffitiLocalHttpMessage,
+} from "./http.js";
+
+const DEFAULT_MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+export interface GraffitiLocalServerOptions {
+  /**
+   * Returns the session that a request is made with, or `null`
+   * or `undefined` if it is anonymous. Defaults to trusting the
+   * actor in the `Graffiti-Session-Actor` header, so, as with
+   * `did:local` actors, anyone who can reach the server can
+   * act as anyone.
+   */
+  authenticate?: (
+    request: IncomingMessage,
+  ) =>
+    | GraffitiSession
+    | null
+    | undefined
+    | Promise<GraffitiSession | null | undefined>;
+  /**
+   * The largest request body, in bytes. Defaults to 50 MiB.
+   */
+  maxBodyBytes?: number;
+  /**
+   * If given, the `Access-Control-Allow-Origin` of every response,
+   * so that browsers can use the server from other origins.
+   */
+  allowOrigin?: string;
+  /**
+   * Called with errors that are not Graffiti errors, such as
+   * storage failures, which clients only see as a generic
+   * 500 error. Use it to log the details.
+   */
+  onError?: (error: unknown, request: IncomingMessage) => void;
+}
+
+/**
+ * Serves a {@link Graffiti} instance, typically a
+ * {@link GraffitiLocal}, over HTTP so that several processes
+ * and browsers can share one store through {@link GraffitiLocalClient}.
+ *
+ * Objects are posted to `/objects` and read and deleted at
+ * `/objects/:url`, media likewise at `/media` and `/media/:url`,
+ * with the accepted media types taken from the `Accept` header.
+ * `/discover` streams results as NDJSON or, if requested
+ * with `Accept: text/event-stream`, as server-sent events.
+ */
+export class GraffitiLocalServer {
+  protected graffiti: Graffiti;
+  protected options: GraffitiLocalServerOptions;
+
+  constructor(graffiti: Graffiti, options?: GraffitiLocalServerOptions) {
+    this.graffiti = graffiti;
+    this.options = options ?? {};
+  }
+
+  /**
+   * Handles a request, for example as the listener
+   * passed to `http.createServer`.
+   */
+  handle = async (request: IncomingMessage, response: ServerResponse) => {
+    const { allowOrigin } = this.options;
+    if (allowOrigin !== undefined) {
+      response.setHeader("Access-Control-Allow-Origin", allowOrigin);
+      response.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE");
+      response.setHeader(
+        "Access-Control-Allow-Headers",
+        `Content-Type, ${SESSION_HEADER}`,
+      );
+      response.setHeader(
+        "Access-Control-Expose-Headers",
+        `${MEDIA_ACTOR_HEADER}, ${MEDIA_ALLOWED_HEADER}`,
+      );
+    }
+    if (request.method === "OPTIONS") {
+      response.writeHead(204).end();
+      return;
+    }
+
+    try {
+      await this.route(request, response);
+    } catch (error) {
+      if (response.headersSent) {
+        response.destroy();
+        return;
+      }
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+      };
+      const body = this.serializeError(error, request);
+      if (body.retryAfter !== undefined) {
+        headers["Retry-After"] = String(Math.ceil(body.retryAfter / 1000));
+      }
+      response.writeHead(errorStatus(error), headers).end(JSON.stringify(body));
+    }
+  };
+
+  protected serializeError(error: unknown, request: IncomingMessage) {
+    if (!isKnownError(error)) this.options.onError?.(error, request);
+    return serializeError(error);
+  }
+
+  protected async route(request: IncomingMessage, response: ServerResponse) {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    const [resource, encoded, ...rest] = url.pathname
+      .split("/")
+      .filter(Boolean);
+    const target =
+      encoded === undefined ? undefined : decodeURIComponent(encoded);
+    const path = target === undefined ? resource : `${resource}/:url`;
+    if (rest.length) throw new GraffitiErrorNotFound("No such endpoint");
+
+    const session = await (this.options.authenticate ?? defaultAuthenticate)(
+      request,
+    );
+    const requireSession = () => {
+      if (!session) throw new GraffitiErrorForbidden("Log in to do this");
+      return session;
+    };
+
+    switch (`${request.method} ${path}`) {
+      case "POST objects": {
+        const body = JSON.parse(
+          new TextDecoder().decode(await this.readBody(request)),
+        );
+        const object = await this.graffiti.post<{}>(body, requireSession());
+        sendJSON(response, 201, object);
+        return;
+      }
+      case "GET objects/:url": {
+        const schema = searchJSON(url, "schema") ?? {};
+        const object = await this.graffiti.get<{}>(target!, schema, session);
+        sendJSON(response, 200, object);
+        return;
+      }
+      case "DELETE objects/:url": {
+        const object = await this.graffiti.delete(target!, requireSession());
+        sendJSON(response, 200, object);
+        return;
+      }
+      case "GET discover": {
+        const cursor = searchJSON(url, "cursor");
+        const stream =
+          cursor !== undefined
+            ? this.graffiti.continueDiscover<{}>(cursor, session)
+            : this.graffiti.discover<{}>(
+                searchJSON(url, "channels") ?? [],
+                searchJSON(url, "schema") ?? {},
+                session,
+              );
+        await this.sendStream(request, response, stream);
+        return;
+      }
+      case "POST media": {
+        const data = new Blob([await this.readBody(request)], {
+          type: request.headers["content-type"],
+        });
+        const mediaUrl = await this.graffiti.postMedia(
+          { data, allowed: searchJSON(url, "allowed") },
+          requireSession(),
+        );
+        sendJSON(response, 201, { url: mediaUrl });
+        return;
+      }
+      case "GET media/:url": {
+        const accept: GraffitiMediaAccept = {};
+        if (request.headers.accept !== undefined) {
+          accept.types = new Negotiator(request).mediaTypes();
+        }
+        const maxBytes = searchJSON(url, "maxBytes");
+        if (maxBytes !== undefined) accept.maxBytes = maxBytes;
+
+        const { data, actor, allowed } = await this.graffiti.getMedia(
+          target!,
+          accept,
+          session,
+        );
+        const headers: Record<string, string | number> = {
+          "Content-Length": data.size,
+          Vary: `Accept, ${SESSION_HEADER}`,
+          [MEDIA_ACTOR_HEADER]: encodeURIComponent(actor),
+        };
+        if (data.type) headers["Content-Type"] = data.type;
+        if (allowed !== undefined) {
+          headers[MEDIA_ALLOWED_HEADER] = encodeURIComponent(
+            JSON.stringify(allowed),
+          );
+        }
+        response
+          .writeHead(200, headers)
+          .end(new Uint8Array(await data.arrayBuffer()));
+        return;
+      }
+      case "DELETE media/:url": {
+        await this.graffiti.deleteMedia(target!, requireSession());
+        response.writeHead(204).end();
+        return;
+      }
+      default:
+        throw new GraffitiErrorNotFound("No such endpoint");
+    }
+  }
+
+  protected async readBody(
+    request: IncomingMessage,
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    const maxBodyBytes = this.options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for await (const chunk of request as AsyncIterable<Uint8Array>) {
+      size += chunk.length;
+      if (size > maxBodyBytes) {
+        throw new GraffitiErrorTooLarge(
+          `Requests cannot be larger than ${maxBodyBytes} bytes`,
+        );
+      }
+      chunks.push(chunk);
+    }
+    const body = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+      body.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return body;
+  }
+
+  /**
+   * Writes a discover stream as it is read. Errors before the first
+   * result get an error status, later ones end the stream.
+   */
+  protected async sendStream(
+    request: IncomingMessage,
+    response: ServerResponse,
+    stream: GraffitiObjectStream<{}>,
+  ) {
+    const format =
+      new Negotiator(request).mediaType([NDJSON, EVENT_STREAM]) ?? NDJSON;
+    let result = await stream.next();
+
+    let closed = false;
+    response.once("close", () => (closed = true));
+    response.writeHead(200, {
+      "Content-Type": format,
+      "Cache-Control": "no-cache",
+    });
+    const send = async (message: GraffitiLocalHttpMessage) => {
+      const [[event, data]] = Object.entries(message);
+      const chunk =
+        format === EVENT_STREAM
+          ? `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+          : `${JSON.stringify(message)}\n`;
+      if (response.write(chunk) || closed) return;
+      // Wait for the client to catch up
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          response.off("drain", done);
+          response.off("close", done);
+          resolve();
+        };
+        response.on("drain", done);
+        response.on("close", done);
+      });
+    };
+
+    try {
+      while (!result.done) {
+        if (closed) return;
+        await send({ entry: serializeEntry(result.value) });
+        result = await stream.next();
+      }
+      await send({ cursor: result.value.cursor });
+    } catch (error) {
+      await send({ error: this.serializeError(error, request) });
+    }
+    response.end();
+  }
+}
+
+function defaultAuthenticate(request: IncomingMessage) {
+  const actor = request.headers[SESSION_HEADER.toLowerCase()];
+  return typeof actor === "string"
+    ? { actor: decodeURIComponent(actor) }
+    : null;
+}
+
+function searchJSON(url: URL, name: string) {
+  const value = url.searchParams.get(name);
+  return value === null ? undefined : JSON.parse(value);
+}
+
+function sendJSON(response: ServerResponse, status: number, body: unknown) {
+  response
+    .writeHead(status, { "Content-Type": "application/json" })
+    .end(JSON.stringify(body));
+}
@@ -0,0 +1,111 @@
+/**
+ * Where {@link GraffitiLocalIdentity} keeps logged in handles and
+ * {@link GraffitiLocalKeys} keeps key pairs, as string values
+ * under string keys, much like `localStorage`.
+ */
+export interface GraffitiLocalSessionStore {
+  getItem(key: string): Promise<string | undefined>;
+  setItem(key: string, value: string): Promise<void>;
+}
+
+/**
+ * A {@link GraffitiLocalSessionStore} backed by `window.localStorage`,
+ * the default in the browser.
+ */
+export class GraffitiLocalBrowserSessionStore implements GraffitiLocalSessionStore {
+  async getItem(key: string) {
+    return window.localStorage.getItem(key) ?? undefined;
+  }
+
+  async setItem(key: string, value: string) {
+    window.localStorage.setItem(key, value);
+  }
+}
+
+/**
+ * A {@link GraffitiLocalSessionStore} that forgets everything
+ * when the process exits, the default outside the browser.
+ */
+export class GraffitiLocalMemorySessionStore implements GraffitiLocalSessionStore {
+  protected items = new Map<string, string>();
+
+  async getItem(key: string) {
+    return this.items.get(key);
+  }
+
+  async setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+}
+
+/**
+ * A {@link GraffitiLocalSessionStore} that persists to a JSON file,
+ * so that command line tools and Electron apps stay logged in
+ * across restarts. Only available in Node.js.
+ */
+export class GraffitiLocalFileSessionStore implements GraffitiLocalSessionStore {
+  protected readonly path: string;
+  protected items_: Promise<Record<string, string>> | undefined;
+  protected writing = Promise.resolve();
+
+  /**
+   * @param path The file to read and write. It is
+   * created on the first write if it doesn't exist.
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  protected get items() {
+    if (!this.items_) {
+      this.items_ = (async () => {
+        const { readFile } = await import("node:fs/promises");
+        try {
+          return JSON.parse(await readFile(this.path, "utf8"));
+        } catch (error) {
+          if (
+            error &&
+            typeof error === "object" &&
+            "code" in error &&
+            error.code === "ENOENT"
+          ) {
+            return {};
+          }
+          throw error;
+        }
+      })();
+    }
+    return this.items_;
+  }
+
+  async getItem(key: string) {
+    return (await this.items)[key];
+  }
+
+  async setItem(key: string, value: string) {
+    const items = await this.items;
+    items[key] = value;
+    const contents = JSON.stringify(items, null, 2);
+
+    // Write one at a time and replace the file atomically
+    // so a crash never leaves it half written
+    const write = this.writing.then(async () => {
+      const { writeFile, rename } = await import("node:fs/promises");
+      const temporary = `${this.path}.${process.pid}.tmp`;
+      await writeFile(temporary, contents, { mode: 0o600 });
+      await rename(temporary, this.path);
+    });
+    this.writing = write.catch(() => {});
+    await write;
+  }
+}
+
+/**
+ * Returns the default {@link GraffitiLocalSessionStore}
+ * for the current environment.
+ */
+export function defaultSessionStore(): GraffitiLocalSessionStore {
+  return typeof window !== "undefined"
+    ? new GraffitiLocalBrowserSessionStore()
+    : new GraffitiLocalMemorySessionStore();
+}
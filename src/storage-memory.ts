@@ -0,0 +1,308 @@
+import type { GraffitiLocalDiscoverCursor } from "./cursors.js";
+import { decodeObjectUrl } from "./utilities.js";
+import {
+  GraffitiLocalErrorConflict,
+  compareByLastModified,
+  searchTerms,
+  storedBytes,
+  matchesValueFilter,
+  type GraffitiLocalChannelQuery,
+  type GraffitiLocalStorage,
+  type GraffitiLocalStoredObject,
+} from "./storage.js";
+
+function sortByLastModified(objects: GraffitiLocalStoredObject[]) {
+  return objects.sort(compareByLastModified);
+}
+
+type Entry = {
+  object: GraffitiLocalStoredObject;
+  sequence: number;
+};
+
+/**
+ * A {@link GraffitiLocalStorage} that keeps everything in memory.
+ * Nothing is persisted and PouchDB is never loaded, which makes it
+ * well suited to tests and server-side rendering.
+ *
+ * To simulate multiple devices sharing a database,
+ * pass the same instance to multiple {@link GraffitiLocal}s.
+ */
+export class GraffitiLocalMemoryStorage implements GraffitiLocalStorage {
+  protected objects = new Map<string, Entry>();
+  protected cursors = new Map<
+    string,
+    { cursor: GraffitiLocalDiscoverCursor; rev: string }
+  >();
+  protected history = new Map<string, GraffitiLocalStoredObject[]>();
+  protected media = new Map<string, { data: Blob; refs: Set<string> }>();
+  protected uploads = new Map<string, Blob[]>();
+  /**
+   * The URLs of the objects containing each search term.
+   */
+  protected searchIndex = new Map<string, Set<string>>();
+  protected currentSequence = 0;
+  protected watchers = new Set<(entry: Entry) => void>();
+
+  protected nextRevision(rev?: string) {
+    const generation = rev ? Number(rev.split("-")[0]) + 1 : 1;
+    return `${generation}-${this.currentSequence}`;
+  }
+
+  protected updateSearchIndex(
+    object: GraffitiLocalStoredObject,
+    indexed: boolean,
+  ) {
+    for (const term of searchTerms(object.value).keys()) {
+      const urls = this.searchIndex.get(term) ?? new Set();
+      if (indexed) {
+        urls.add(object.url);
+        this.searchIndex.set(term, urls);
+      } else {
+        urls.delete(object.url);
+        if (!urls.size) this.searchIndex.delete(term);
+      }
+    }
+  }
+
+  async get(url: string) {
+    const entry = this.objects.get(url);
+    return entry ? structuredClone(entry.object) : undefined;
+  }
+
+  async put(object: GraffitiLocalStoredObject) {
+    const existing = this.objects.get(object.url);
+    if (existing?.object.rev !== object.rev) {
+      throw new GraffitiLocalErrorConflict(
+        "The object has changed since it was read",
+      );
+    }
+
+    const sequence = ++this.currentSequence;
+    const rev = this.nextRevision(object.rev);
+    const entry = { object: { ...structuredClone(object), rev }, sequence };
+    this.objects.set(object.url, entry);
+    if (existing) this.updateSearchIndex(existing.object, false);
+    if (!object.tombstone) this.updateSearchIndex(object, true);
+
+    // Notify asynchronously, like a real change feed
+    for (const watcher of this.watchers) {
+      queueMicrotask(() => watcher(entry));
+    }
+    return rev;
+  }
+
+  async purge(objects: { url: string; rev: string }[]) {
+    let purged = 0;
+    for (const { url, rev } of objects) {
+      const entry = this.objects.get(url);
+      if (entry?.object.rev === rev) {
+        this.updateSearchIndex(entry.object, false);
+        this.objects.delete(url);
+        this.history.delete(url);
+        purged++;
+      }
+    }
+    return purged;
+  }
+
+  async queryChannel(channel: string, query?: GraffitiLocalChannelQuery) {
+    const { filter, descending, after, limit } = query ?? {};
+    const direction = descending ? -1 : 1;
+    const objects = sortByLastModified(
+      Array.from(this.objects.values())
+        .map(({ object }) => object)
+        .filter(
+          (object) =>
+            object.channels.includes(channel) &&
+            (!after || compareByLastModified(object, after) * direction > 0) &&
+            (!filter || matchesValueFilter(object, filter)),
+        ),
+    );
+    if (descending) objects.reverse();
+    return objects.slice(0, limit).map((object) => structuredClone(object));
+  }
+
+  async searchChannel(channel: string, terms: string[]) {
+    const urls = new Set(
+      terms.flatMap((term) => Array.from(this.searchIndex.get(term) ?? [])),
+    );
+    return Array.from(urls).flatMap((url) => {
+      const object = this.objects.get(url)!.object;
+      return object.channels.includes(channel) ? [structuredClone(object)] : [];
+    });
+  }
+
+  async usage(actor: string) {
+    let objects = 0;
+    let bytes = 0;
+    for (const { object } of this.objects.values()) {
+      if (object.tombstone || decodeObjectUrl(object.url).actor !== actor) {
+        continue;
+      }
+      objects++;
+      bytes += storedBytes(object);
+    }
+    return { objects, bytes };
+  }
+
+  async queryTombstones(deletedBefore: number) {
+    return Array.from(this.objects.values())
+      .map(({ object }) => object)
+      .filter(
+        (object) =>
+          object.tombstone &&
+          object.deletedAt !== undefined &&
+          object.deletedAt <= deletedBefore,
+      )
+      .map((object) => structuredClone(object));
+  }
+
+  async latest() {
+    let latest: Entry | undefined;
+    for (const entry of this.objects.values()) {
+      if (!latest || entry.sequence > latest.sequence) latest = entry;
+    }
+    return latest ? structuredClone(latest.object) : undefined;
+  }
+
+  async sequence() {
+    return this.currentSequence;
+  }
+
+  async changes(since: string | number, limit?: number) {
+    const sinceNumber = Number(since);
+    const entries = Array.from(this.objects.values())
+      .filter(({ sequence }) => sequence > sinceNumber)
+      .sort((a, b) => a.sequence - b.sequence);
+    const read = entries.slice(0, limit);
+    return {
+      objects: read.map(({ object }) => structuredClone(object)),
+      sequence:
+        read.length < entries.length
+          ? (read.at(-1)?.sequence ?? sinceNumber)
+          : this.currentSequence,
+    };
+  }
+
+  watch(
+    since: string | number,
+    onChange: (object: GraffitiLocalStoredObject) => void,
+    onError: (error: unknown) => void,
+  ) {
+    const sinceNumber = Number(since);
+    if (!Number.isSafeInteger(sinceNumber)) {
+      queueMicrotask(() => onError(new Error(`Invalid sequence ${since}`)));
+      return { cancel: () => {} };
+    }
+
+    let cancelled = false;
+    const watcher = (entry: Entry) => {
+      if (!cancelled) onChange(structuredClone(entry.object));
+    };
+
+    // Catch up on anything already written since, before
+    // any notifications queued by writes that happen next
+    const missed = Array.from(this.objects.values())
+      .filter(({ sequence }) => sequence > sinceNumber)
+      .sort((a, b) => a.sequence - b.sequence);
+    queueMicrotask(() => missed.forEach(watcher));
+    this.watchers.add(watcher);
+
+    return {
+      cancel: () => {
+        cancelled = true;
+        this.watchers.delete(watcher);
+      },
+    };
+  }
+
+  async keepRevision(object: GraffitiLocalStoredObject, limit: number) {
+    const kept = [...(this.history.get(object.url) ?? [])];
+    if (!kept.some(({ rev }) => rev === object.rev)) {
+      kept.push(structuredClone(object));
+    }
+    this.history.set(
+      object.url,
+      sortByLastModified(kept).slice(Math.max(kept.length - limit, 0)),
+    );
+  }
+
+  async revisions(url: string) {
+    return (this.history.get(url) ?? []).map((object) =>
+      structuredClone(object),
+    );
+  }
+
+  async retainMedia(hash: string, url: string, data: Blob) {
+    const stored = this.media.get(hash);
+    if (stored) {
+      stored.refs.add(url);
+    } else {
+      this.media.set(hash, { data, refs: new Set([url]) });
+    }
+  }
+
+  async appendMediaUpload(upload: string, data: Blob) {
+    const chunks = this.uploads.get(upload) ?? [];
+    chunks.push(data);
+    this.uploads.set(upload, chunks);
+  }
+
+  async retainMediaUpload(hash: string, url: string, upload: string) {
+    const chunks = this.uploads.get(upload) ?? [];
+    this.uploads.delete(upload);
+    await this.retainMedia(
+      hash,
+      url,
+      new Blob(chunks, { type: chunks[0]?.type }),
+    );
+  }
+
+  async discardMediaUpload(upload: string) {
+    this.uploads.delete(upload);
+  }
+
+  async getMedia(hash: string) {
+    return this.media.get(hash)?.data;
+  }
+
+  async releaseMedia(hash: string, url: string) {
+    const stored = this.media.get(hash);
+    if (!stored) return;
+    stored.refs.delete(url);
+    if (!stored.refs.size) this.media.delete(hash);
+  }
+
+  async putCursor(token: string, cursor: GraffitiLocalDiscoverCursor) {
+    if (this.cursors.has(token)) {
+      throw new GraffitiLocalErrorConflict("The cursor already exists");
+    }
+    this.cursors.set(token, { cursor: structuredClone(cursor), rev: "1" });
+  }
+
+  async getCursor(token: string) {
+    const stored = this.cursors.get(token);
+    return stored
+      ? { cursor: structuredClone(stored.cursor), rev: stored.rev }
+      : undefined;
+  }
+
+  async removeCursor(token: string, rev: string) {
+    if (this.cursors.get(token)?.rev !== rev) {
+      throw new GraffitiLocalErrorConflict("The cursor has already been used");
+    }
+    this.cursors.delete(token);
+  }
+
+  async purgeCursors(expiredBefore: number) {
+    let purged = 0;
+    for (const [token, { cursor }] of this.cursors) {
+      if (cursor.expiresAt <= expiredBefore) {
+        this.cursors.delete(token);
+        purged++;
+      }
+    }
+    return purged;
+  }
+}
@@ -0,0 +1,989 @@
+import type { GraffitiLocalDiscoverCursor } from "./cursors.js";
+import { lastModifiedKey } from "./clock.js";
+import {
+  GraffitiLocalErrorConflict,
+  compareByLastModified,
+  type GraffitiLocalChannelQuery,
+  type GraffitiLocalStorage,
+  type GraffitiLocalStoredObject,
+  type GraffitiObjectData,
+} from "./storage.js";
+import { encodeObjectUrl, ignoreConflict } from "./utilities.js";
+import {
+  GRAFFITI_LOCAL_MIGRATIONS,
+  type GraffitiLocalMigration,
+  type GraffitiLocalMigrationProgress,
+} from "./migrations.js";
+
+type PouchDBObject = PouchDB.Core.ExistingDocument<GraffitiObjectData>;
+
+function isConflict(error: unknown) {
+  return (
+    !!error &&
+    typeof error === "object" &&
+    "name" in error &&
+    error.name === "conflict"
+  );
+}
+
+/**
+ * The name of a database that accompanies the database `name`,
+ * such as its media database. For remote databases, the suffix
+ * goes on the path so that credentials and parameters are kept.
+ */
+export function companionName(name: string, suffix: string) {
+  if (/^https?:\/\//.test(name)) {
+    const url = new URL(name);
+    url.pathname = url.pathname.replace(/\/?$/, suffix);
+    return url.toString();
+  }
+  return name + suffix;
+}
+
+function fromPouchDB(doc: PouchDBObject): GraffitiLocalStoredObject {
+  const { _id, _rev, ...data } = doc;
+  // Strip any other PouchDB metadata
+  for (const key of Object.keys(data)) {
+    if (key.startsWith("_")) delete data[key as keyof typeof data];
+  }
+  return { ...data, url: _id, rev: _rev };
+}
+
+function isObjectDoc(
+  doc: PouchDB.Core.ExistingDocument<{}> | undefined,
+  deleted?: boolean,
+): doc is PouchDBObject {
+  return (
+    !!doc &&
+    !deleted &&
+    !doc._id.startsWith("_design/") &&
+    !doc._id.startsWith("_local/")
+  );
+}
+
+type DesignDoc = {
+  _id: string;
+  views: Record<string, { map: string; reduce?: string }>;
+};
+
+/**
+ * Creates a design document, or replaces it if its views have
+ * changed, such as when a new version changes a map function,
+ * so that PouchDB rebuilds the views rather than keeping stale ones.
+ *
+ * @returns Whether an earlier version was replaced.
+ */
+async function putDesignDoc(db: PouchDB.Database, doc: DesignDoc) {
+  let existing: PouchDB.Core.ExistingDocument<DesignDoc> | undefined;
+  try {
+    existing = await db.get<DesignDoc>(doc._id);
+  } catch {}
+  if (
+    existing &&
+    JSON.stringify(existing.views) === JSON.stringify(doc.views)
+  ) {
+    return false;
+  }
+  await db
+    .put<DesignDoc>({ ...doc, ...(existing ? { _rev: existing._rev } : {}) })
+    // Another instance put it first
+    .catch(ignoreConflict);
+  return !!existing;
+}
+
+/**
+ * Which {@link GraffitiLocalMigration}s have run on a database,
+ * kept in a local document so it is never replicated.
+ */
+type MigrationState = {
+  version: number;
+  /**
+   * Where the next migration left off, if it was interrupted.
+   */
+  resume?: { version: number; since: string | number };
+};
+const MIGRATION_STATE_ID = "_local/migrations";
+const MIGRATION_BATCH_SIZE = 100;
+
+// Tokens may start with an underscore,
+// which PouchDB reserves for special documents
+function cursorId(token: string) {
+  return "cursor:" + token;
+}
+
+// Object URLs are URI encoded so they never contain spaces
+function revisionId(url: string, rev: string) {
+  return url + " " + rev;
+}
+
+// Read from globalThis so that browser bundles
+// don't substitute a polyfill
+const NodeBuffer = (globalThis as { Buffer?: typeof Buffer }).Buffer;
+
+// Media bytes are stored once per hash, and each media
+// object that uses them gets its own reference document,
+// so replicas can add and remove references without conflicts
+function mediaId(hash: string) {
+  return "blob:" + hash;
+}
+function mediaRefPrefix(hash: string) {
+  return "ref:" + hash + ":";
+}
+// Uploads keep their chunks as numbered attachments, and the
+// media document points to the upload once its hash is known
+function mediaUploadId(upload: string) {
+  return "upload:" + upload;
+}
+
+async function toAttachment(data: Blob) {
+  // PouchDB expects Buffers in Node.js and Blobs in the browser
+  return NodeBuffer ? NodeBuffer.from(await data.arrayBuffer()) : data;
+}
+function fromAttachment(data: Blob | Buffer) {
+  return data instanceof Blob ? data : new Blob([new Uint8Array(data)]);
+}
+
+/**
+ * Options for {@link GraffitiLocalPouchDBStorage}
+ * beyond those passed to PouchDB.
+ */
+export interface GraffitiLocalPouchDBStorageOptions {
+  /**
+   * Migrations that bring objects written by earlier versions up
+   * to date when the database is opened. Defaults to
+   * {@link GRAFFITI_LOCAL_MIGRATIONS}. To add your own,
+   * append them to those with higher versions.
+   */
+  migrations?: GraffitiLocalMigration[];
+  /**
+   * Called as migrations work through the database,
+   * for example to show a progress bar.
+   */
+  onMigrationProgress?: (progress: GraffitiLocalMigrationProgress) => void;
+  /**
+   * Returns the current time in milliseconds, for migrations.
+   * Defaults to `Date.now`.
+   */
+  now?: () => number;
+}
+
+/**
+ * A {@link GraffitiLocalStorage} backed by [PouchDB](https://pouchdb.com/),
+ * which persists data in the browser or Node.js, or in a remote CouchDB.
+ * Cursors are kept in a companion `<name>-cursors` database,
+ * media bytes are kept as binary attachments in `<name>-media`
+ * and earlier revisions of objects are kept in `<name>-history`.
+ * Opening the database runs any {@link GraffitiLocalMigration}s
+ * it has not yet had, before anything else is read or written.
+ */
+export class GraffitiLocalPouchDBStorage implements GraffitiLocalStorage {
+  protected db_: Promise<PouchDB.Database<GraffitiObjectData>> | undefined;
+  protected cursorDb_:
+    Promise<PouchDB.Database<GraffitiLocalDiscoverCursor>> | undefined;
+  protected mediaDb_: Promise<PouchDB.Database> | undefined;
+  protected valueIndexes = new Map<string, Promise<string>>();
+  protected historyDb_:
+    | Promise<PouchDB.Database<{ object: GraffitiLocalStoredObject }>>
+    | undefined;
+  protected readonly pouchDBOptions: PouchDB.Configuration.DatabaseConfiguration;
+  protected readonly migrations: GraffitiLocalMigration[];
+  protected readonly onMigrationProgress: GraffitiLocalPouchDBStorageOptions["onMigrationProgress"];
+  protected readonly now: () => number;
+
+  /**
+   * @param pouchDBOptions Options to pass to the PouchDB constructor.
+   * Defaults to `{ name: "graffitiDb" }`.
+   */
+  constructor(
+    pouchDBOptions?: PouchDB.Configuration.DatabaseConfiguration,
+    options?: GraffitiLocalPouchDBStorageOptions,
+  ) {
+    this.pouchDBOptions = {
+      name: "graffitiDb",
+      ...pouchDBOptions,
+    };
+    this.migrations = [
+      ...(options?.migrations ?? GRAFFITI_LOCAL_MIGRATIONS),
+    ].sort((a, b) => a.version - b.version);
+    this.migrations.forEach(({ version }, i) => {
+      if (!(version > 0) || version === this.migrations[i - 1]?.version) {
+        throw new Error("Migration versions must be unique and positive");
+      }
+    });
+    this.onMigrationProgress = options?.onMigrationProgress;
+    this.now = options?.now ?? Date.now;
+  }
+
+  /**
+   * The underlying PouchDB database, for operations like
+   * replication that are specific to PouchDB.
+   */
+  get db() {
+    if (!this.db_) {
+      this.db_ = (async () => {
+        const { default: PouchDB } = await import("pouchdb");
+        const pouchDbOptions = this.pouchDBOptions;
+        const db = new PouchDB<GraffitiObjectData>(
+          pouchDbOptions.name,
+          pouchDbOptions,
+        );
+        const designDocs: DesignDoc[] = [
+          {
+            _id: "_design/indexes",
+            views: {
+              objectsPerChannelAndLastModified: {
+                map: function (object: GraffitiObjectData) {
+                  const paddedLastModified = object.lastModified
+                    .toString()
+                    .padStart(15, "0");
+                  object.channels.forEach(function (channel) {
+                    const id =
+                      encodeURIComponent(channel) + "/" + paddedLastModified;
+                    //@ts-ignore
+                    emit(id);
+                  });
+                }.toString(),
+              },
+            },
+          },
+          {
+            _id: "_design/tombstones",
+            views: {
+              tombstonesByDeletedAt: {
+                map: function (object: GraffitiObjectData) {
+                  if (object.tombstone && object.deletedAt) {
+                    //@ts-ignore
+                    emit(object.deletedAt);
+                  }
+                }.toString(),
+              },
+            },
+          },
+          {
+            _id: "_design/search",
+            views: {
+              byChannelAndTerm: {
+                // Matches `searchTerms`
+                map: function (object: GraffitiObjectData) {
+                  if (object.tombstone) return;
+                  const terms: Record<string, boolean> = Object.create(null);
+                  const visit = function (value: unknown) {
+                    if (typeof value === "string") {
+                      value
+                        .normalize("NFKD")
+                        .replace(/\p{M}/gu, "")
+                        .toLowerCase()
+                        .split(/[^\p{L}\p{N}]+/u)
+                        .forEach(function (term) {
+                          if (term) terms[term] = true;
+                        });
+                    } else if (value && typeof value === "object") {
+                      Object.keys(value).forEach(function (key) {
+                        visit((value as Record<string, unknown>)[key]);
+                      });
+                    }
+                  };
+                  visit(object.value);
+                  object.channels.forEach(function (channel) {
+                    Object.keys(terms).forEach(function (term) {
+                      //@ts-ignore
+                      emit([channel, term]);
+                    });
+                  });
+                }.toString(),
+              },
+            },
+          },
+          {
+            _id: "_design/usage",
+            views: {
+              bytesByActor: {
+                // Keyed by the object URL up to its ID, which
+                // identifies the actor. Matches `storedBytes`.
+                map: function (object: GraffitiObjectData & { _id: string }) {
+                  if (object.tombstone) return;
+                  const mediaBytes = object.media ? object.media.size : 0;
+                  const valueBytes = unescape(
+                    encodeURIComponent(JSON.stringify(object.value)),
+                  ).length;
+                  //@ts-ignore
+                  emit(
+                    object._id.slice(0, object._id.lastIndexOf(":")),
+                    valueBytes + mediaBytes,
+                  );
+                }.toString(),
+                reduce: "_stats",
+              },
+            },
+          },
+        ];
+        const replaced = await Promise.all(
+          designDocs.map((doc) => putDesignDoc(db, doc)),
+        );
+        // Remove the indexes of replaced views
+        if (replaced.includes(true)) await db.viewCleanup();
+        await this.migrate(db);
+        return db;
+      })();
+      // Retry, resuming any interrupted migration, if opening failed
+      this.db_.catch(() => (this.db_ = undefined));
+    }
+    return this.db_;
+  }
+
+  /**
+   * Runs the {@link GraffitiLocalMigration}s that have not yet
+   * finished on `db`, passing every object through each in turn.
+   * Progress is checkpointed after each batch of objects,
+   * so an interrupted migration resumes where it left off.
+   */
+  protected async migrate(db: PouchDB.Database<GraffitiObjectData>) {
+    const stateDb = db as unknown as PouchDB.Database<MigrationState>;
+    let state: PouchDB.Core.PutDocument<MigrationState>;
+    try {
+      state = await stateDb.get(MIGRATION_STATE_ID);
+    } catch {
+      state = { _id: MIGRATION_STATE_ID, version: 0 };
+    }
+    const save = async (next: MigrationState) => {
+      const { rev } = await stateDb.put({
+        ...next,
+        _id: MIGRATION_STATE_ID,
+        _rev: state._rev,
+      });
+      state = { ...next, _id: MIGRATION_STATE_ID, _rev: rev };
+    };
+
+    for (const migration of this.migrations) {
+      if (migration.version <= state.version) continue;
+      const { version, description } = migration;
+      let since = state.resume?.version === version ? state.resume.since : 0;
+      const total = (await db.info()).doc_count;
+      let processed = 0;
+      let done = false;
+      while (!done) {
+        const result = await db.changes<GraffitiObjectData>({
+          since,
+          limit: MIGRATION_BATCH_SIZE,
+          include_docs: true,
+        });
+        for (const change of result.results) {
+          if (!isObjectDoc(change.doc, change.deleted)) continue;
+          const migrated = await migration.migrate(
+            fromPouchDB(change.doc),
+            this,
+            this.now,
+          );
+          if (!migrated) continue;
+          const { url, rev, ...data } = migrated;
+          await db
+            .put({ ...data, _id: url, _rev: rev })
+            // It changed since it was read, so the
+            // newer version is later in the feed
+            .catch(ignoreConflict);
+        }
+        processed += result.results.length;
+        since = result.last_seq;
+        done = result.results.length < MIGRATION_BATCH_SIZE;
+        await save(
+          done
+            ? { version }
+            : { version: state.version, resume: { version, since } },
+        );
+        this.onMigrationProgress?.({
+          version,
+          description,
+          processed,
+          total,
+          done,
+        });
+      }
+    }
+  }
+
+  protected get cursorDb() {
+    if (!this.cursorDb_) {
+      this.cursorDb_ = (async () => {
+        const { default: PouchDB } = await import("pouchdb");
+        const name = companionName(this.pouchDBOptions.name!, "-cursors");
+        const db = new PouchDB<GraffitiLocalDiscoverCursor>(name, {
+          ...this.pouchDBOptions,
+          name,
+        });
+        const replaced = await putDesignDoc(db, {
+          _id: "_design/cursors",
+          views: {
+            cursorsByExpiresAt: {
+              map: function (cursor: GraffitiLocalDiscoverCursor) {
+                //@ts-ignore
+                emit(cursor.expiresAt);
+              }.toString(),
+            },
+          },
+        });
+        if (replaced) await db.viewCleanup();
+        return db;
+      })();
+    }
+    return this.cursorDb_;
+  }
+
+  /**
+   * The PouchDB database holding media bytes, which
+   * should be replicated alongside {@link db}.
+   */
+  get mediaDb() {
+    if (!this.mediaDb_) {
+      this.mediaDb_ = (async () => {
+        const { default: PouchDB } = await import("pouchdb");
+        const name = companionName(this.pouchDBOptions.name!, "-media");
+        return new PouchDB(name, { ...this.pouchDBOptions, name });
+      })();
+    }
+    return this.mediaDb_;
+  }
+
+  protected get historyDb() {
+    if (!this.historyDb_) {
+      this.historyDb_ = (async () => {
+        const { default: PouchDB } = await import("pouchdb");
+        const name = companionName(this.pouchDBOptions.name!, "-history");
+        return new PouchDB<{ object: GraffitiLocalStoredObject }>(name, {
+          ...this.pouchDBOptions,
+          name,
+        });
+      })();
+    }
+    return this.historyDb_;
+  }
+
+  /**
+   * Deletes the database and its companion databases.
+   * The storage can't be used afterwards.
+   */
+  async destroy() {
+    const { default: PouchDB } = await import("pouchdb");
+    const name = this.pouchDBOptions.name!;
+    const databases: [string, Promise<PouchDB.Database> | undefined][] = [
+      [name, this.db_],
+      [companionName(name, "-cursors"), this.cursorDb_],
+      [companionName(name, "-media"), this.mediaDb_],
+      [companionName(name, "-history"), this.historyDb_],
+    ];
+    for (const [name, opened] of databases) {
+      const db =
+        (await opened?.catch(() => undefined)) ??
+        new PouchDB(name, { ...this.pouchDBOptions, name });
+      await db.destroy();
+    }
+  }
+
+  async get(url: string) {
+    try {
+      return fromPouchDB(await (await this.db).get(url));
+    } catch {
+      return undefined;
+    }
+  }
+
+  async put(object: GraffitiLocalStoredObject) {
+    const { url, rev, ...data } = object;
+    try {
+      const response = await (
+        await this.db
+      ).put({
+        ...data,
+        _id: url,
+        ...(rev ? { _rev: rev } : {}),
+      });
+      return response.rev;
+    } catch (error) {
+      if (isConflict(error)) {
+        throw new GraffitiLocalErrorConflict(
+          "The object has changed since it was read",
+        );
+      }
+      throw error;
+    }
+  }
+
+  async purge(objects: { url: string; rev: string }[]) {
+    if (!objects.length) return 0;
+    const db = await this.db;
+    // Deletion stubs intentionally omit the object data
+    const responses = await db.bulkDocs(
+      objects.map(({ url, rev }) => ({
+        _id: url,
+        _rev: rev,
+        _deleted: true,
+      })) as PouchDB.Core.PutDocument<GraffitiObjectData>[],
+    );
+    const purged = objects.filter((_, i) => {
+      const response = responses[i];
+      return "ok" in response && response.ok;
+    });
+
+    // Remove the purged objects' kept revisions too
+    const historyDb = await this.historyDb;
+    const history = await Promise.all(
+      purged.map(({ url }) =>
+        historyDb.allDocs({
+          startkey: revisionId(url, ""),
+          endkey: revisionId(url, "\uffff"),
+        }),
+      ),
+    );
+    const historyStubs = history.flatMap((result) =>
+      result.rows.map((row) => ({
+        _id: row.id,
+        _rev: row.value.rev,
+        _deleted: true,
+      })),
+    );
+    if (historyStubs.length) {
+      await historyDb.bulkDocs(
+        historyStubs as PouchDB.Core.PutDocument<{
+          object: GraffitiLocalStoredObject;
+        }>[],
+      );
+    }
+
+    await Promise.all([
+      db.compact(),
+      (await this.mediaDb).compact(),
+      historyDb.compact(),
+    ]);
+    return purged.length;
+  }
+
+  /**
+   * Creates the design document for an index on a value path
+   * the first time it is queried. PouchDB then keeps the
+   * index up to date as objects are written.
+   */
+  protected valueIndex(path: string) {
+    let index = this.valueIndexes.get(path);
+    if (!index) {
+      index = (async () => {
+        const name = "values-" + path;
+        const segments = JSON.stringify(path.split("."));
+        const db = await this.db;
+        const replaced = await putDesignDoc(db, {
+          _id: "_design/" + name,
+          views: {
+            byChannelAndValue: {
+              map: `function (object) {
+                  var value = object;
+                  var path = ${segments};
+                  for (var i = 0; i < path.length; i++) {
+                    if (
+                      !value ||
+                      typeof value !== "object" ||
+                      !Object.prototype.hasOwnProperty.call(value, path[i])
+                    ) {
+                      return;
+                    }
+                    value = value[path[i]];
+                  }
+                  var lastModified = object.lastModified
+                    .toString()
+                    .padStart(15, "0");
+                  // Arrays are indexed by each of their elements
+                  (Array.isArray(value) ? value : [value]).forEach(
+                    function (value) {
+                      if (value !== null && typeof value === "object") return;
+                      object.channels.forEach(function (channel) {
+                        emit([channel, value, lastModified]);
+                      });
+                    },
+                  );
+                }`,
+            },
+          },
+        });
+        if (replaced) await db.viewCleanup();
+        return name + "/byChannelAndValue";
+      })();
+      // Retry if creating the index failed
+      index.catch(() => this.valueIndexes.delete(path));
+      this.valueIndexes.set(path, index);
+    }
+    return index;
+  }
+
+  async queryChannel(channel: string, query?: GraffitiLocalChannelQuery) {
+    const { filter, descending, after, limit } = query ?? {};
+    const direction = descending ? -1 : 1;
+    const compare = (
+      a: GraffitiLocalStoredObject,
+      b: GraffitiLocalStoredObject,
+    ) => compareByLastModified(a, b) * direction;
+    const db = await this.db;
+    const afterKey = after ? lastModifiedKey(after.lastModified) : undefined;
+    // Reads a view from `first` to `last` until there are `limit`
+    // objects after `after`. Views can't start partway through a key,
+    // and several objects can share one, like those with the same
+    // legacy numeric timestamp, so each read starts at the last key
+    // read before and skips the rows already read with that key.
+    const readAfter = async <Key>(view: string, first: Key, last: Key) => {
+      const objects: GraffitiLocalStoredObject[] = [];
+      let startkey = descending ? last : first;
+      const endkey = descending ? first : last;
+      let skip = 0;
+      while (true) {
+        const { rows } = await db.query<GraffitiObjectData>(view, {
+          include_docs: true,
+          descending: !!descending,
+          startkey,
+          endkey,
+          skip,
+          // With room for the rows of `after` itself
+          ...(limit !== undefined ? { limit: limit + 2 } : {}),
+        });
+        for (const row of rows) {
+          if (!row.doc) continue;
+          const object = fromPouchDB(row.doc);
+          if (!after || compareByLastModified(object, after) * direction > 0) {
+            objects.push(object);
+          }
+        }
+        if (
+          limit === undefined ||
+          objects.length >= limit ||
+          rows.length < limit + 2
+        ) {
+          return objects;
+        }
+        const lastKey = rows.at(-1)!.key;
+        const isLastKey = (key: unknown) =>
+          JSON.stringify(key) === JSON.stringify(lastKey);
+        const readWithLastKey = rows.filter((row) => isLastKey(row.key)).length;
+        skip = isLastKey(startkey) ? skip + readWithLastKey : readWithLastKey;
+        startkey = lastKey;
+      }
+    };
+    const bounds = <Key>(start: Key, end: Key, afterPosition: Key) =>
+      descending
+        ? ([start, afterKey ? afterPosition : end] as const)
+        : ([afterKey ? afterPosition : start, end] as const);
+
+    if (filter) {
+      const view = await this.valueIndex(filter.path);
+      const results = await Promise.all(
+        Array.from(new Set(filter.values)).map((value) =>
+          readAfter<unknown[]>(
+            view,
+            ...bounds<unknown[]>(
+              [channel, value],
+              [channel, value, {}],
+              [channel, value, afterKey],
+            ),
+          ),
+        ),
+      );
+      // Merge into the same order as an unfiltered query,
+      // once even if an object contains several of the values
+      const objects = new Map(
+        results.flat().map((object) => [object.url, object]),
+      );
+      return Array.from(objects.values()).sort(compare).slice(0, limit);
+    }
+
+    const keyPrefix = encodeURIComponent(channel) + "/";
+    const objects = await readAfter(
+      "indexes/objectsPerChannelAndLastModified",
+      ...bounds(keyPrefix, keyPrefix + "\uffff", keyPrefix + afterKey),
+    );
+    return objects.slice(0, limit);
+  }
+
+  async searchChannel(channel: string, terms: string[]) {
+    const result = await (
+      await this.db
+    ).query<GraffitiObjectData>("search/byChannelAndTerm", {
+      keys: terms.map((term) => [channel, term]),
+      include_docs: true,
+    });
+    // Objects containing more than one of the terms are returned for each
+    const objects = new Map<string, GraffitiLocalStoredObject>();
+    for (const row of result.rows) {
+      if (row.doc) objects.set(row.doc._id, fromPouchDB(row.doc));
+    }
+    return Array.from(objects.values());
+  }
+
+  async usage(actor: string) {
+    const key = encodeObjectUrl(actor, "").slice(0, -1);
+    const result = await (
+      await this.db
+    ).query("usage/bytesByActor", { key, reduce: true });
+    const stats = result.rows.at(0)?.value as
+      { count: number; sum: number } | undefined;
+    return { objects: stats?.count ?? 0, bytes: stats?.sum ?? 0 };
+  }
+
+  async queryTombstones(deletedBefore: number) {
+    const result = await (
+      await this.db
+    ).query<GraffitiObjectData>("tombstones/tombstonesByDeletedAt", {
+      endkey: deletedBefore,
+      include_docs: true,
+    });
+    return result.rows.flatMap((row) =>
+      row.doc ? [fromPouchDB(row.doc)] : [],
+    );
+  }
+
+  async latest() {
+    const db = await this.db;
+    // Design documents, like those of value indexes, are in the changes
+    // feed too. There are only a few, so read back further until past
+    // them, since `since` is ignored when reading the feed descending.
+    for (let limit = 1; ; limit *= 2) {
+      const result = await db.changes<GraffitiObjectData>({
+        descending: true,
+        limit,
+        include_docs: true,
+      });
+      const change = result.results.find((change) =>
+        isObjectDoc(change.doc, change.deleted),
+      );
+      if (change) return fromPouchDB(change.doc!);
+      if (result.results.length < limit) return undefined;
+    }
+  }
+
+  async sequence() {
+    return (await (await this.db).info()).update_seq;
+  }
+
+  async changes(since: string | number, limit?: number) {
+    const result = await (
+      await this.db
+    ).changes<GraffitiObjectData>({
+      since,
+      include_docs: true,
+      ...(limit !== undefined ? { limit } : {}),
+    });
+    return {
+      objects: result.results.flatMap((change) =>
+        isObjectDoc(change.doc, change.deleted)
+          ? [fromPouchDB(change.doc)]
+          : [],
+      ),
+      sequence: result.last_seq,
+    };
+  }
+
+  watch(
+    since: string | number,
+    onChange: (object: GraffitiLocalStoredObject) => void,
+    onError: (error: unknown) => void,
+  ) {
+    let feed: PouchDB.Core.Changes<GraffitiObjectData> | undefined;
+    let cancelled = false;
+    this.db.then((db) => {
+      if (cancelled) return;
+      feed = db
+        .changes<GraffitiObjectData>({
+          since,
+          live: true,
+          include_docs: true,
+        })
+        .on("change", (change) => {
+          if (isObjectDoc(change.doc, change.deleted)) {
+            onChange(fromPouchDB(change.doc));
+          }
+        })
+        .on("error", onError);
+    }, onError);
+    return {
+      cancel: () => {
+        cancelled = true;
+        feed?.cancel();
+      },
+    };
+  }
+
+  async keepRevision(object: GraffitiLocalStoredObject, limit: number) {
+    if (!object.rev) return;
+    const db = await this.historyDb;
+    await db
+      .put({ _id: revisionId(object.url, object.rev), object })
+      .catch(ignoreConflict);
+
+    const kept = await this.revisions(object.url);
+    const discarded = kept.slice(0, Math.max(kept.length - limit, 0));
+    for (const { url, rev } of discarded) {
+      try {
+        await db.remove(await db.get(revisionId(url, rev!)));
+      } catch {}
+    }
+  }
+
+  async revisions(url: string) {
+    const result = await (
+      await this.historyDb
+    ).allDocs({
+      startkey: revisionId(url, ""),
+      endkey: revisionId(url, "\uffff"),
+      include_docs: true,
+    });
+    return result.rows
+      .flatMap((row) => (row.doc ? [row.doc.object] : []))
+      .sort(compareByLastModified);
+  }
+
+  async retainMedia(hash: string, url: string, data: Blob) {
+    const db = await this.mediaDb;
+    const refId = mediaRefPrefix(hash) + url;
+    await db.put({ _id: refId }).catch(ignoreConflict);
+    try {
+      await db.get(mediaId(hash));
+      return;
+    } catch {}
+    await db
+      .put({
+        _id: mediaId(hash),
+        _attachments: {
+          data: {
+            content_type: data.type,
+            data: await toAttachment(data),
+          },
+        },
+      })
+      // Identical bytes were stored concurrently
+      .catch(ignoreConflict);
+  }
+
+  async appendMediaUpload(upload: string, data: Blob) {
+    const db = await this.mediaDb;
+    const id = mediaUploadId(upload);
+    const type = data.type || "application/octet-stream";
+    let doc: PouchDB.Core.IdMeta & PouchDB.Core.GetMeta;
+    try {
+      doc = await db.get(id);
+    } catch {
+      await db.putAttachment(id, "0", await toAttachment(data), type);
+      return;
+    }
+    const index = Object.keys(doc._attachments ?? {}).length;
+    await db.putAttachment(
+      id,
+      String(index),
+      doc._rev,
+      await toAttachment(data),
+      type,
+    );
+  }
+
+  async retainMediaUpload(hash: string, url: string, upload: string) {
+    const db = await this.mediaDb;
+    await db.put({ _id: mediaRefPrefix(hash) + url }).catch(ignoreConflict);
+    try {
+      await db.put({ _id: mediaId(hash), upload });
+      return;
+    } catch (error) {
+      ignoreConflict(error);
+    }
+    // Identical bytes are already stored
+    await this.discardMediaUpload(upload);
+  }
+
+  async discardMediaUpload(upload: string) {
+    const db = await this.mediaDb;
+    try {
+      await db.remove(await db.get(mediaUploadId(upload)));
+    } catch {}
+  }
+
+  async getMedia(hash: string) {
+    const db = await this.mediaDb;
+    try {
+      const media: { upload?: string } = await db.get(mediaId(hash));
+      if (media.upload === undefined) {
+        return fromAttachment(await db.getAttachment(mediaId(hash), "data"));
+      }
+      const id = mediaUploadId(media.upload);
+      const { _attachments } = await db.get(id);
+      const names = Object.keys(_attachments ?? {}).sort(
+        (a, b) => Number(a) - Number(b),
+      );
+      const chunks: Blob[] = [];
+      for (const name of names) {
+        chunks.push(fromAttachment(await db.getAttachment(id, name)));
+      }
+      return new Blob(chunks);
+    } catch {
+      return undefined;
+    }
+  }
+
+  async releaseMedia(hash: string, url: string) {
+    const db = await this.mediaDb;
+    const prefix = mediaRefPrefix(hash);
+    try {
+      const ref = await db.get(prefix + url);
+      await db.remove(ref);
+    } catch {
+      return;
+    }
+
+    const remaining = await db.allDocs({
+      startkey: prefix,
+      endkey: prefix + "\uffff",
+      limit: 1,
+    });
+    if (remaining.rows.length) return;
+    try {
+      const media: PouchDB.Core.ExistingDocument<{ upload?: string }> =
+        await db.get(mediaId(hash));
+      await db.remove(media);
+      if (media.upload !== undefined) {
+        await this.discardMediaUpload(media.upload);
+      }
+    } catch {}
+  }
+
+  async putCursor(token: string, cursor: GraffitiLocalDiscoverCursor) {
+    await (await this.cursorDb).put({ _id: cursorId(token), ...cursor });
+  }
+
+  async getCursor(token: string) {
+    try {
+      const { _id, _rev, ...cursor } = await (
+        await this.cursorDb
+      ).get(cursorId(token));
+      return { cursor, rev: _rev };
+    } catch {
+      return undefined;
+    }
+  }
+
+  async removeCursor(token: string, rev: string) {
+    try {
+      await (await this.cursorDb).remove(cursorId(token), rev);
+    } catch {
+      throw new GraffitiLocalErrorConflict("The cursor has already been used");
+    }
+  }
+
+  async purgeCursors(expiredBefore: number) {
+    const db = await this.cursorDb;
+    const result = await db.query<GraffitiLocalDiscoverCursor>(
+      "cursors/cursorsByExpiresAt",
+      { endkey: expiredBefore, include_docs: true },
+    );
+
+    const stubs = result.rows.flatMap((row) =>
+      row.doc ? [{ _id: row.doc._id, _rev: row.doc._rev, _deleted: true }] : [],
+    );
+    if (!stubs.length) return 0;
+
+    const responses = await db.bulkDocs(
+      stubs as PouchDB.Core.PutDocument<GraffitiLocalDiscoverCursor>[],
+    );
+    return responses.filter((response) => "ok" in response && response.ok)
+      .length;
+  }
+}
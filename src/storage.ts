@@ -0,0 +1,350 @@
+import type { GraffitiLocalDiscoverCursor } from "./cursors.js";
+import { lastModifiedKey } from "./clock.js";
+
+/**
+ * The data stored for each object.
+ */
+export type GraffitiObjectData = {
+  tombstone: boolean;
+  value: {};
+  channels: string[];
+  allowed?: string[] | null;
+  /**
+   * A {@link GraffitiLocalClock} timestamp, or the database's
+   * update sequence for objects written by older versions.
+   */
+  lastModified: string | number;
+  /**
+   * Wall-clock time the object was deleted,
+   * used to decide when to purge the tombstone.
+   */
+  deletedAt?: number;
+  /**
+   * The author's signature, required for objects
+   * by `did:key` actors. See {@link GraffitiLocalKeys}.
+   */
+  signature?: string;
+  /**
+   * Set only on the objects of `postMedia`, which refer
+   * to `size` bytes of media stored under `hash`.
+   */
+  media?: { hash: string; size: number };
+};
+
+/**
+ * An object as it is read from or written to a {@link GraffitiLocalStorage}.
+ */
+export type GraffitiLocalStoredObject = GraffitiObjectData & {
+  url: string;
+  /**
+   * An opaque revision identifier. When writing, it must match the
+   * stored revision or the write fails with {@link GraffitiLocalErrorConflict}.
+   * It is omitted when creating a new object.
+   */
+  rev?: string;
+};
+
+/**
+ * Matches objects whose value at a dotted `path`, like
+ * `value.type`, is strictly equal to one of `values`,
+ * or is an array containing one of them, like `allowed`.
+ */
+export type GraffitiLocalValueFilter = {
+  path: string;
+  values: (string | number | boolean | null)[];
+};
+
+/**
+ * A position in the order that {@link GraffitiLocalStorage.queryChannel}
+ * returns objects in, used to resume a query where it left off.
+ */
+export type GraffitiLocalChannelPosition = {
+  lastModified: string | number;
+  url: string;
+};
+
+/**
+ * Narrows down a {@link GraffitiLocalStorage.queryChannel}.
+ */
+export type GraffitiLocalChannelQuery = {
+  /**
+   * Only return objects that match this filter.
+   */
+  filter?: GraffitiLocalValueFilter;
+  /**
+   * Return objects by descending rather than ascending
+   * `lastModified` and then `url`.
+   */
+  descending?: boolean;
+  /**
+   * Only return objects that come strictly after
+   * this position, in the order they are returned.
+   */
+  after?: GraffitiLocalChannelPosition;
+  /**
+   * Return at most this many objects,
+   * and fewer only if there are no more.
+   */
+  limit?: number;
+};
+
+/**
+ * Orders objects by ascending `lastModified` and then `url`,
+ * the order in which {@link GraffitiLocalStorage.queryChannel}
+ * returns them.
+ */
+export function compareByLastModified(
+  a: GraffitiLocalChannelPosition,
+  b: GraffitiLocalChannelPosition,
+): number {
+  const aKey = lastModifiedKey(a.lastModified);
+  const bKey = lastModifiedKey(b.lastModified);
+  if (aKey !== bKey) return aKey < bKey ? -1 : 1;
+  return a.url < b.url ? -1 : a.url > b.url ? 1 : 0;
+}
+
+/**
+ * Returns the size of an object value in bytes of JSON.
+ */
+export function valueBytes(value: {}): number {
+  return new TextEncoder().encode(JSON.stringify(value)).length;
+}
+
+/**
+ * Returns how many bytes a stored object takes up: the JSON of its
+ * value and, if it is the object of a `postMedia`, the size of its media.
+ * This is what counts towards an actor's
+ * {@link GraffitiLocalStorage.usage | usage}.
+ */
+export function storedBytes(object: GraffitiObjectData): number {
+  return valueBytes(object.value) + (object.media?.size ?? 0);
+}
+
+/**
+ * Returns the value at a dotted `path` in an object,
+ * or `undefined` if it is missing.
+ */
+export function valueAtPath(object: {}, path: string): unknown {
+  let value: unknown = object;
+  for (const key of path.split(".")) {
+    if (
+      !value ||
+      typeof value !== "object" ||
+      !Object.prototype.hasOwnProperty.call(value, key)
+    ) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Whether an object matches a {@link GraffitiLocalValueFilter}.
+ */
+export function matchesValueFilter(
+  object: {},
+  filter: GraffitiLocalValueFilter,
+): boolean {
+  const value = valueAtPath(object, filter.path);
+  const values = Array.isArray(value) ? value : [value];
+  return values.some((value) => filter.values.includes(value as string));
+}
+
+/**
+ * Splits the strings in an object value into lowercase words
+ * without accents, and counts how many times each occurs.
+ * This is how {@link GraffitiLocalStorage.searchChannel} matches text.
+ */
+export function searchTerms(value: unknown): Map<string, number> {
+  const terms = new Map<string, number>();
+  const visit = (value: unknown) => {
+    if (typeof value === "string") {
+      const words = value
+        .normalize("NFKD")
+        .replace(/\p{M}/gu, "")
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u);
+      for (const word of words) {
+        if (word) terms.set(word, (terms.get(word) ?? 0) + 1);
+      }
+    } else if (value && typeof value === "object") {
+      Object.values(value).forEach(visit);
+    }
+  };
+  visit(value);
+  return terms;
+}
+
+/**
+ * A cursor as it is read from a {@link GraffitiLocalStorage},
+ * before it has been validated.
+ */
+export type GraffitiLocalStoredCursor = {
+  cursor: unknown;
+  rev: string;
+};
+
+/**
+ * Thrown by a {@link GraffitiLocalStorage} when a write is based on
+ * an outdated revision or would overwrite an existing record.
+ */
+export class GraffitiLocalErrorConflict extends Error {
+  constructor(message?: string) {
+    super(message);
+    this.name = "GraffitiLocalErrorConflict";
+    Object.setPrototypeOf(this, GraffitiLocalErrorConflict.prototype);
+  }
+}
+
+/**
+ * The storage operations that {@link GraffitiLocalObjects} is built on.
+ * See {@link GraffitiLocalPouchDBStorage} for the default,
+ * persistent implementation and {@link GraffitiLocalMemoryStorage}
+ * for one that lives entirely in memory.
+ *
+ * Sequences are opaque values that mark a point in the
+ * change feed of a particular storage instance.
+ */
+export interface GraffitiLocalStorage {
+  /**
+   * Returns the object stored at `url`, including tombstones,
+   * or `undefined` if there is none.
+   */
+  get(url: string): Promise<GraffitiLocalStoredObject | undefined>;
+  /**
+   * Creates or updates an object.
+   *
+   * @returns The object's new revision.
+   */
+  put(object: GraffitiLocalStoredObject): Promise<string>;
+  /**
+   * Permanently removes objects, if they have not changed since the
+   * given revisions, along with their kept revisions,
+   * and reclaims their space.
+   *
+   * @returns The number of objects removed.
+   */
+  purge(objects: { url: string; rev: string }[]): Promise<number>;
+  /**
+   * Returns objects posted to `channel`, including tombstones,
+   * ordered by ascending `lastModified` and then `url`.
+   * If a `filter` is given, only objects whose value at
+   * `filter.path` is or contains one of `filter.values` are returned,
+   * and the storage may maintain an index to find them.
+   * Large channels can be read in pages with `after` and `limit`,
+   * in either direction.
+   */
+  queryChannel(
+    channel: string,
+    query?: GraffitiLocalChannelQuery,
+  ): Promise<GraffitiLocalStoredObject[]>;
+  /**
+   * Returns the objects posted to `channel`, not including tombstones,
+   * whose value contains at least one of `terms`, as split by
+   * {@link searchTerms}, in any order. The storage keeps an
+   * inverted index of terms to find them.
+   */
+  searchChannel(
+    channel: string,
+    terms: string[],
+  ): Promise<GraffitiLocalStoredObject[]>;
+  /**
+   * Returns how many objects `actor` has stored and how many
+   * bytes they take up, as measured by {@link storedBytes},
+   * not counting tombstones.
+   */
+  usage(actor: string): Promise<{ objects: number; bytes: number }>;
+  /**
+   * Returns tombstones that were deleted before `deletedBefore`,
+   * a wall-clock time in milliseconds.
+   */
+  queryTombstones(deletedBefore: number): Promise<GraffitiLocalStoredObject[]>;
+  /**
+   * Returns the most recently written object, if any.
+   */
+  latest(): Promise<GraffitiLocalStoredObject | undefined>;
+  /**
+   * Returns the current position in the change feed.
+   */
+  sequence(): Promise<string | number>;
+  /**
+   * Returns the latest version of every object that has changed
+   * since `since` along with the new position in the change feed.
+   * If `limit` is given, at most that many changes are read and
+   * the position is just after the last one, so the rest can be
+   * read by calling again.
+   */
+  changes(
+    since: string | number,
+    limit?: number,
+  ): Promise<{
+    objects: GraffitiLocalStoredObject[];
+    sequence: string | number;
+  }>;
+  /**
+   * Calls `onChange` with each object that changes after `since`,
+   * until the returned handle is cancelled.
+   */
+  watch(
+    since: string | number,
+    onChange: (object: GraffitiLocalStoredObject) => void,
+    onError: (error: unknown) => void,
+  ): { cancel(): void };
+
+  /**
+   * Keeps a copy of a revision of an object that is being
+   * replaced, discarding the oldest copies beyond `limit`.
+   */
+  keepRevision(object: GraffitiLocalStoredObject, limit: number): Promise<void>;
+  /**
+   * Returns the kept revisions of the object at `url`,
+   * ordered by ascending `lastModified`.
+   */
+  revisions(url: string): Promise<GraffitiLocalStoredObject[]>;
+
+  /**
+   * Stores media bytes under their SHA-256 `hash`, unless identical
+   * bytes are already stored, and records that the media object
+   * at `url` references them.
+   */
+  retainMedia(hash: string, url: string, data: Blob): Promise<void>;
+  /**
+   * Stores the next chunk of media that is still being uploaded,
+   * before its hash is known, under the identifier `upload`.
+   */
+  appendMediaUpload(upload: string, data: Blob): Promise<void>;
+  /**
+   * Like {@link retainMedia}, but for the chunks
+   * appended under `upload`, in order.
+   */
+  retainMediaUpload(hash: string, url: string, upload: string): Promise<void>;
+  /**
+   * Removes the chunks appended under `upload`
+   * if they were never retained.
+   */
+  discardMediaUpload(upload: string): Promise<void>;
+  /**
+   * Returns the media bytes stored under `hash`, if any.
+   */
+  getMedia(hash: string): Promise<Blob | undefined>;
+  /**
+   * Removes the reference from the media object at `url`, and
+   * removes the bytes once no media objects reference them.
+   */
+  releaseMedia(hash: string, url: string): Promise<void>;
+
+  putCursor(token: string, cursor: GraffitiLocalDiscoverCursor): Promise<void>;
+  getCursor(token: string): Promise<GraffitiLocalStoredCursor | undefined>;
+  /**
+   * Removes a cursor, failing with {@link GraffitiLocalErrorConflict}
+   * if it was already removed or changed since `rev`.
+   */
+  removeCursor(token: string, rev: string): Promise<void>;
+  /**
+   * Removes cursors that expired before `expiredBefore`.
+   *
+   * @returns The number of cursors removed.
+   */
+  purgeCursors(expiredBefore: number): Promise<number>;
+}
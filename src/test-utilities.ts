@@ -0,0 +1,64 @@
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll } from "vitest";
+import {
+  GraffitiLocalPouchDBStorage,
+  type GraffitiLocalPouchDBStorageOptions,
+} from "./storage-pouchdb.js";
+import { randomBase64 } from "./utilities.js";
+
+/**
+ * Returns the name of a new PouchDB database
+ * in the system's temporary directory.
+ */
+export function tempDbName(feature: string) {
+  return join(tmpdir(), `graffitiDb-${feature}-${randomBase64(8)}`);
+}
+
+/**
+ * Returns a function that creates PouchDB storage in the
+ * system's temporary directory, all of which is destroyed
+ * once the tests in the calling file have finished.
+ */
+export function tempPouchDBStorages(feature: string) {
+  const storages: GraffitiLocalPouchDBStorage[] = [];
+  afterAll(async () => {
+    for (const storage of storages) await storage.destroy();
+  });
+  return (
+    pouchDBOptions?: PouchDB.Configuration.DatabaseConfiguration,
+    options?: GraffitiLocalPouchDBStorageOptions,
+  ) => {
+    const storage = new GraffitiLocalPouchDBStorage(
+      { name: tempDbName(feature), ...pouchDBOptions },
+      options,
+    );
+    storages.push(storage);
+    return storage;
+  };
+}
+
+/**
+ * The values read by {@link collect}, along with
+ * anything the iterator returned.
+ */
+export type Collected<T, Return> = { values: T[] } & (Return extends {}
+  ? Return
+  : {});
+
+/**
+ * Reads every value from an iterator along with
+ * anything it returns, like a discover's cursor.
+ */
+export async function collect<T, Return = void>(
+  iterator: AsyncIterator<T, Return>,
+): Promise<Collected<T, Return>> {
+  const values: T[] = [];
+  while (true) {
+    const result = await iterator.next();
+    if (result.done) {
+      return { values, ...result.value } as Collected<T, Return>;
+    }
+    values.push(result.value);
+  }
+}
@@ -3,12 +3,41 @@ import {
   graffitiDiscoverTests,
   graffitiMediaTests,
 } from "@graffiti-garden/api/tests";
-import { GraffitiLocal } from "./index";
+import { describe } from "vitest";
+import {
+  GraffitiLocal,
+  GraffitiLocalMemoryStorage,
+  createSequentialIds,
+  createSteppingClock,
+} from "./index";
 
-const useGraffiti = () => new GraffitiLocal();
 const useSession1 = () => ({ actor: "did:example:someone" });
 const useSession2 = () => ({ actor: "did:example:someoneelse" });
 
-graffitiCRUDTests(useGraffiti, useSession1, useSession2);
-graffitiDiscoverTests(useGraffiti, useSession1, useSession2);
-graffitiMediaTests(useGraffiti, useSession1, useSession2);
+describe("PouchDB storage", () => {
+  const useGraffiti = () => new GraffitiLocal();
+  graffitiCRUDTests(useGraffiti, useSession1, useSession2);
+  graffitiDiscoverTests(useGraffiti, useSession1, useSession2);
+  graffitiMediaTests(useGraffiti, useSession1, useSession2);
+});
+
+describe("Memory storage", () => {
+  // Share storage between instances to simulate multiple devices
+  const storage = new GraffitiLocalMemoryStorage();
+  const useGraffiti = () => new GraffitiLocal({ storage });
+  graffitiCRUDTests(useGraffiti, useSession1, useSession2);
+  graffitiDiscoverTests(useGraffiti, useSession1, useSession2);
+  graffitiMediaTests(useGraffiti, useSession1, useSession2);
+});
+
+describe("Deterministic clock and IDs", () => {
+  // Share the providers too, so that instances don't reuse URLs
+  const storage = new GraffitiLocalMemoryStorage();
+  const now = createSteppingClock();
+  const generateId = createSequentialIds();
+  const useGraffiti = () =>
+    new GraffitiLocal({ storage, now, generateId, clockNode: "test" });
+  graffitiCRUDTests(useGraffiti, useSession1, useSession2);
+  graffitiDiscoverTests(useGraffiti, useSession1, useSession2);
+  graffitiMediaTests(useGraffiti, useSession1, useSession2);
+});
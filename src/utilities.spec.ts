@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { Sha256, createSha256 } from "./utilities";
+
+// From the examples for FIPS 180-4
+const vectors: [string, string][] = [
+  ["", "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855"],
+  ["abc", "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"],
+  [
+    "abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq",
+    "248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1",
+  ],
+  [
+    "abcdefghbcdefghicdefghijdefghijkefghijklfghijklmghijklmn" +
+      "hijklmnoijklmnopjklmnopqklmnopqrlmnopqrsmnopqrstnopqrstu",
+    "cf5b16a778af8380036ce59e7b0492370b249b11e8f07a51afac45037afee9d1",
+  ],
+  [
+    "a".repeat(1_000_000),
+    "cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0",
+  ],
+];
+
+function hex(bytes: Uint8Array) {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    "",
+  );
+}
+
+describe.each([
+  ["Sha256", async () => new Sha256()],
+  ["createSha256", createSha256],
+])("%s", (_, create) => {
+  it.each(
+    vectors.map(([message, digest]) => [message.length, message, digest]),
+  )("digests a %i byte message", async (_, message, digest) => {
+    const hash = await create();
+    hash.update(new TextEncoder().encode(message));
+    expect(hex(hash.digest())).toBe(digest);
+  });
+
+  it("gives the same digest however the bytes are split", async () => {
+    const bytes = new Uint8Array(1000).map((_, i) => i % 251);
+    const whole = await create();
+    whole.update(bytes);
+    const expected = hex(whole.digest());
+
+    for (const size of [1, 55, 56, 63, 64, 65, 128, 333]) {
+      const chunked = await create();
+      for (let i = 0; i < bytes.length; i += size) {
+        chunked.update(bytes.subarray(i, i + size));
+      }
+      expect(hex(chunked.digest())).toBe(expected);
+    }
+  });
+});
@@ -1,8 +1,11 @@
 import { GraffitiErrorNotFound } from "@graffiti-garden/api";
 
 export function encodeBase64(bytes: Uint8Array): string {
-  // Convert it to base64
-  const base64 = btoa(String.fromCodePoint(...bytes));
+  // Convert it to base64, a byte at a time so
+  // large arrays don't overflow the stack
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  const base64 = btoa(binary);
   // Make sure it is url safe
   return base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/\=+$/, "");
 }
@@ -16,6 +19,61 @@ export function decodeBase64(base64Url: string): Uint8Array {
   return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
 }
 
+const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+export function encodeBase58(bytes: Uint8Array): string {
+  let value = 0n;
+  for (const byte of bytes) value = (value << 8n) | BigInt(byte);
+  let encoded = "";
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+  // Each leading zero byte is encoded as a leading "1"
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    encoded = BASE58_ALPHABET[0] + encoded;
+  }
+  return encoded;
+}
+
+export function decodeBase58(base58: string): Uint8Array {
+  let value = 0n;
+  for (const char of base58) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) throw new Error(`Invalid base58 character ${char}`);
+    value = value * 58n + BigInt(digit);
+  }
+  const bytes: number[] = [];
+  while (value > 0n) {
+    bytes.unshift(Number(value & 0xffn));
+    value >>= 8n;
+  }
+  for (const char of base58) {
+    if (char !== BASE58_ALPHABET[0]) break;
+    bytes.unshift(0);
+  }
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Returns a generator of pseudorandom numbers between 0 and 1
+ * that yields the same sequence for the same 32-bit `seed`.
+ * Not suitable for anything secret.
+ */
+export function seededRandom(seed: number): () => number {
+  // mulberry32
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
 export function randomBase64(numBytes: number = 32): string {
   // Generate random bytes
   const bytes = new Uint8Array(numBytes);
@@ -23,6 +81,42 @@ export function randomBase64(numBytes: number = 32): string {
   return encodeBase64(bytes);
 }
 
+/**
+ * Serializes JSON with sorted keys so that the same
+ * object always produces the same bytes.
+ */
+export function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJSON).join(",")}]`;
+  } else if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJSON(v)}`)
+      .join(",")}}`;
+  } else {
+    return JSON.stringify(value) ?? "null";
+  }
+}
+
+/**
+ * Swallows the conflict PouchDB raises when
+ * putting a document that already exists.
+ */
+export function ignoreConflict(error: unknown) {
+  if (
+    error &&
+    typeof error === "object" &&
+    "name" in error &&
+    error.name === "conflict"
+  ) {
+    return;
+  } else {
+    throw error;
+  }
+}
+
 const OBJECT_URL_PREFIX = "graffiti:";
 
 export function encodeObjectUrlComponent(value: string) {
@@ -79,7 +173,166 @@ export async function blobToBase64(blob: Blob): Promise<string> {
   throw new Error("Unsupported environment");
 }
 
+export async function sha256Base64(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    await blob.arrayBuffer(),
+  );
+  return encodeBase64(new Uint8Array(digest));
+}
+
+// The first 32 bits of the fractional parts of the
+// cube roots of the first 64 primes
+const SHA256_K = Uint32Array.from([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+const SHA256_INITIAL = Uint32Array.from([
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+  0x1f83d9ab, 0x5be0cd19,
+]);
+
+function rotateRight(x: number, n: number) {
+  return (x >>> n) | (x << (32 - n));
+}
+
+/**
+ * Computes a SHA-256 digest of bytes as they arrive, for
+ * streams that are too large to hand to `crypto.subtle` at once.
+ */
+export class Sha256 {
+  protected state = Uint32Array.from(SHA256_INITIAL);
+  protected block = new Uint8Array(64);
+  protected blockLength = 0;
+  protected length = 0;
+  protected words = new Uint32Array(64);
+
+  update(bytes: Uint8Array): this {
+    this.length += bytes.length;
+    let offset = 0;
+    while (offset < bytes.length) {
+      const count = Math.min(64 - this.blockLength, bytes.length - offset);
+      this.block.set(bytes.subarray(offset, offset + count), this.blockLength);
+      this.blockLength += count;
+      offset += count;
+      if (this.blockLength === 64) {
+        this.compress();
+        this.blockLength = 0;
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Returns the digest of everything passed to {@link update}.
+   * The hash can't be updated afterwards.
+   */
+  digest(): Uint8Array {
+    const bits = this.length * 8;
+    // A one bit, zeros and the length, to a multiple of 64 bytes
+    const padding = new Uint8Array(((((55 - this.length) % 64) + 64) % 64) + 9);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(padding.length - 8, Math.floor(bits / 2 ** 32));
+    view.setUint32(padding.length - 4, bits >>> 0);
+    this.update(padding);
+
+    const digest = new Uint8Array(32);
+    const digestView = new DataView(digest.buffer);
+    this.state.forEach((word, i) => digestView.setUint32(i * 4, word));
+    return digest;
+  }
+
+  protected compress() {
+    const { words, state } = this;
+    const view = new DataView(this.block.buffer);
+    for (let i = 0; i < 16; i++) words[i] = view.getUint32(i * 4);
+    for (let i = 16; i < 64; i++) {
+      const w15 = words[i - 15];
+      const w2 = words[i - 2];
+      const s0 = rotateRight(w15, 7) ^ rotateRight(w15, 18) ^ (w15 >>> 3);
+      const s1 = rotateRight(w2, 17) ^ rotateRight(w2, 19) ^ (w2 >>> 10);
+      words[i] = words[i - 16] + s0 + words[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = state;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25);
+      const choice = (e & f) ^ (~e & g);
+      const t1 = (h + s1 + choice + SHA256_K[i] + words[i]) | 0;
+      const s0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22);
+      const majority = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (s0 + majority) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+    state[4] += e;
+    state[5] += f;
+    state[6] += g;
+    state[7] += h;
+  }
+}
+
+/**
+ * A hash that is computed from bytes as they arrive.
+ */
+export interface IncrementalHash {
+  update(bytes: Uint8Array): unknown;
+  digest(): Uint8Array;
+}
+
+/**
+ * Returns an incremental SHA-256 hash, from `node:crypto`
+ * in Node.js and otherwise from {@link Sha256}.
+ */
+export async function createSha256(): Promise<IncrementalHash> {
+  if (typeof process !== "undefined" && process.versions?.node) {
+    const { createHash } = await import("node:crypto");
+    const hash = createHash("sha256");
+    return {
+      update: (bytes) => hash.update(bytes),
+      digest: () => new Uint8Array(hash.digest()),
+    };
+  }
+  return new Sha256();
+}
+
 export async function base64ToBlob(dataUrl: string) {
   const response = await fetch(dataUrl);
   return await response.blob();
 }
+
+/**
+ * Splits chunks of text into lines, for reading NDJSON.
+ */
+export async function* lines(
+  chunks: AsyncIterable<string> | Iterable<string>,
+): AsyncGenerator<string> {
+  let buffer = "";
+  for await (const chunk of chunks) {
+    buffer += chunk;
+    const parts = buffer.split("\n");
+    buffer = parts.pop()!;
+    yield* parts;
+  }
+  yield buffer;
+}